@@ -15,6 +15,7 @@ MongoDB Model Context Protocol (MCP) Server for GitHub Copilot
 
 Usage:
   mongodb-mcp [options] [mongodb-uri] [database-name]
+  mongodb-mcp verifyAuditLog <audit file or directory> [--anchor <seq>:<hash>]
 
 Options:
   --help, -h         Show this help message
@@ -22,6 +23,17 @@ Options:
   --read-only        Run server in read-only mode (default)
   --read-write       Run server in read-write mode (enables all write operations)
   --mode <mode>      Set mode: 'read-only' or 'read-write'
+  --config <file>    Load settings from a JSON or YAML config file
+  --profile <name>   Select a profile from the config file
+  --transport <type> Transport: 'stdio' (default) or 'http'
+  --http             Shorthand for --transport http
+  --host <address>   HTTP bind address (default: 127.0.0.1)
+  --port <port>      HTTP port (default: 3000)
+  --auth-token <tok> Require 'Authorization: Bearer <tok>' on HTTP requests
+                     (can also be set with MCP_AUTH_TOKEN)
+  --audit-log <file> Write a hash-chained JSONL audit log to <file>
+                     (can also be set with MONGO_SCOUT_AUDIT_LOG)
+  --pii-mode <mode>  Mask personal data in results: 'off' (default), 'mask' or 'hash'
 
 Arguments:
   mongodb-uri        MongoDB connection URI (default: mongodb://localhost:27017)
@@ -31,6 +43,9 @@ Examples:
   mongodb-mcp
   mongodb-mcp --read-write mongodb://localhost:27017 mydb
   mongodb-mcp --mode read-only mongodb://localhost:27017 mydb
+  mongodb-mcp --config scout.yaml --profile staging
+  mongodb-mcp --http --host 0.0.0.0 --port 8080 --auth-token s3cret mongodb://localhost:27017 mydb
+  mongodb-mcp verifyAuditLog ./logs
 `;
 
 // Handle command-line options
@@ -57,9 +72,14 @@ if (args.includes('--version') || args.includes('-v')) {
 
 const filteredArgs = args.filter((arg) => !['--help', '-h', '--version', '-v'].includes(arg));
 
+// Subcommands run their own entry point instead of the MCP server
+const scriptPath = filteredArgs[0] === 'verifyAuditLog'
+  ? join(__dirname, '..', 'dist', 'verify-audit-log.js')
+  : join(__dirname, '..', 'dist', 'index.js');
+const scriptArgs = filteredArgs[0] === 'verifyAuditLog' ? filteredArgs.slice(1) : filteredArgs;
+
 // Launch the actual MCP server
-const serverPath = join(__dirname, '..', 'dist', 'index.js');
-const nodeProcess = spawnSync('node', [serverPath, ...filteredArgs], {
+const nodeProcess = spawnSync('node', [scriptPath, ...scriptArgs], {
   stdio: 'inherit',
   shell: process.platform === 'win32',
 });
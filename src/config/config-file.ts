@@ -0,0 +1,157 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+const connectionSchema = z.object({
+  uri: z.string(),
+  database: z.string().optional(),
+  mode: z.enum(['read-only', 'read-write']).optional(),
+}).strict();
+
+const accessRuleSchema = z.object({
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+}).strict();
+
+const policySchema = z.object({
+  collections: z.object({
+    read: accessRuleSchema.optional(),
+    write: accessRuleSchema.optional(),
+    admin: accessRuleSchema.optional(),
+  }).strict().optional(),
+  fields: z.record(z.enum(['hide', 'mask'])).optional(),
+}).strict();
+
+const alertRuleSchema = z.object({
+  name: z.string(),
+  metric: z.string(),
+  condition: z.enum(['above', 'below']).optional(),
+  warning: z.number().optional(),
+  critical: z.number().optional(),
+  forSeconds: z.number().min(0).optional(),
+  connection: z.string().optional(),
+}).strict();
+
+const piiSchema = z.object({
+  mode: z.enum(['off', 'mask', 'hash']).optional(),
+  detectors: z.array(z.enum(['email', 'phone', 'creditCard', 'iban', 'nationalId', 'ipAddress'])).optional(),
+  salt: z.string().optional(),
+}).strict();
+
+const profileSchema = z.object({
+  uri: z.string().optional(),
+  database: z.string().optional(),
+  mode: z.enum(['read-only', 'read-write']).optional(),
+  rateLimits: z.object({
+    adminPerMinute: z.number().int().positive().optional(),
+  }).optional(),
+  logging: z.object({
+    enabled: z.boolean().optional(),
+    dir: z.string().optional(),
+  }).optional(),
+  audit: z.object({
+    enabled: z.boolean().optional(),
+    file: z.string().optional(),
+    maxSizeMB: z.number().positive().optional(),
+    maxAgeDays: z.number().positive().optional(),
+    retentionDays: z.number().positive().optional(),
+    key: z.string().min(16).optional(),
+  }).optional(),
+  journal: z.object({
+    enabled: z.boolean().optional(),
+    maxDocuments: z.number().int().positive().optional(),
+    maxSizeMB: z.number().positive().max(15).optional(),
+    collectionSizeMB: z.number().positive().optional(),
+  }).optional(),
+  cursors: z.object({
+    maxOpen: z.number().int().positive().optional(),
+    idleTimeoutMinutes: z.number().positive().optional(),
+  }).optional(),
+  schemaSnapshots: z.object({
+    dir: z.string().optional(),
+    maxPerCollection: z.number().int().positive().optional(),
+  }).optional(),
+  queryBaselines: z.object({
+    dir: z.string().optional(),
+  }).optional(),
+  metrics: z.object({
+    intervalSeconds: z.number().positive().optional(),
+    maxSamples: z.number().int().positive().optional(),
+    file: z.string().optional(),
+    recordOnStart: z.boolean().optional(),
+  }).optional(),
+  alerts: z.object({
+    rules: z.array(alertRuleSchema).optional(),
+    webhook: z.string().url().optional(),
+    command: z.string().optional(),
+  }).optional(),
+  allowedCollections: z.array(z.string()).optional(),
+  limits: z.object({
+    maxDocuments: z.number().int().positive().optional(),
+    maxResponseBytes: z.number().int().positive().optional(),
+  }).optional(),
+  connections: z.record(connectionSchema).optional(),
+  policy: policySchema.optional(),
+  pii: piiSchema.optional(),
+}).strict();
+
+const configFileSchema = z.object({
+  defaultProfile: z.string().optional(),
+  profiles: z.record(profileSchema),
+}).strict();
+
+export type ConfigProfile = z.infer<typeof profileSchema>;
+export type ConfigFile = z.infer<typeof configFileSchema>;
+
+/**
+ * Loads a JSON or YAML config file. The format is picked from the file
+ * extension; anything other than .json is parsed as YAML (a superset of JSON).
+ */
+export function loadConfigFile(filePath: string): ConfigFile {
+  const resolvedPath = path.resolve(filePath);
+
+  let raw: string;
+  try {
+    raw = readFileSync(resolvedPath, 'utf8');
+  } catch (error) {
+    throw new Error(`Could not read config file '${resolvedPath}': ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = path.extname(resolvedPath).toLowerCase() === '.json' ? JSON.parse(raw) : parseYaml(raw);
+  } catch (error) {
+    throw new Error(`Could not parse config file '${resolvedPath}': ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = configFileSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid config file '${resolvedPath}':\n${issues}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Picks a profile by name, falling back to `defaultProfile` and then to the
+ * only profile when the file defines exactly one.
+ */
+export function resolveProfile(config: ConfigFile, profileName?: string): { name: string; profile: ConfigProfile } {
+  const names = Object.keys(config.profiles);
+  const name = profileName || config.defaultProfile || (names.length === 1 ? names[0] : undefined);
+
+  if (!name) {
+    throw new Error(`Config file defines multiple profiles; select one with --profile. Available: ${names.join(', ')}`);
+  }
+
+  const profile = config.profiles[name];
+  if (!profile) {
+    throw new Error(`Profile '${name}' not found in config file. Available: ${names.join(', ')}`);
+  }
+
+  return { name, profile };
+}
@@ -1,28 +1,240 @@
-import type { AppConfig } from '../types.js';
+import path from 'path';
+import type { AppConfig, ConnectionConfig, PiiMode, TransportMode } from '../types.js';
+import { loadConfigFile, resolveProfile, type ConfigProfile } from './config-file.js';
 
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_PORT = 3000;
+const DEFAULT_HTTP_SESSION_IDLE_MINUTES = 30;
+const DEFAULT_ADMIN_RATE_LIMIT = 100;
+const DEFAULT_MAX_RESPONSE_BYTES = 100_000;
+const DEFAULT_AUDIT_MAX_SIZE_MB = 50;
+const DEFAULT_AUDIT_MAX_AGE_DAYS = 30;
+const DEFAULT_AUDIT_RETENTION_DAYS = 365;
+const DEFAULT_JOURNAL_MAX_DOCUMENTS = 1000;
+const DEFAULT_JOURNAL_MAX_SIZE_MB = 8;
+const DEFAULT_JOURNAL_COLLECTION_SIZE_MB = 256;
+const DEFAULT_MAX_OPEN_CURSORS = 20;
+const DEFAULT_CURSOR_IDLE_TIMEOUT_MINUTES = 10;
+const DEFAULT_SCHEMA_SNAPSHOT_DIR = './schema-snapshots';
+const DEFAULT_SCHEMA_SNAPSHOTS_PER_COLLECTION = 50;
+const DEFAULT_QUERY_BASELINE_DIR = './query-baselines';
+const DEFAULT_METRICS_INTERVAL_SECONDS = 10;
+// Twelve hours at the default interval
+const DEFAULT_METRICS_MAX_SAMPLES = 4320;
+
+interface CliArgs {
+  uri?: string;
+  dbName?: string;
+  mode?: string;
+  configPath?: string;
+  profile?: string;
+  transport?: TransportMode;
+  host?: string;
+  port?: number;
+  authToken?: string;
+  piiMode?: PiiMode;
+  auditFile?: string;
+}
+
+/**
+ * Builds the app config. Sources are applied in this order, later ones winning:
+ *
+ *   1. built-in defaults
+ *   2. the selected profile from the config file (--config / MONGO_SCOUT_CONFIG)
+ *   3. environment variables
+ *   4. command line flags and positional arguments
+ */
 export function parseArgs(): AppConfig {
-  const args = process.argv.slice(2);
-  let uri: string | undefined;
-  let dbName: string | undefined;
-  let mode = 'read-only';
+  const cli = parseCliArgs(process.argv.slice(2));
+  const env = process.env;
+
+  let profileName: string | undefined;
+  let profile: ConfigProfile = {};
+  const configPath = cli.configPath || env.MONGO_SCOUT_CONFIG;
+  if (configPath) {
+    const resolved = resolveProfile(loadConfigFile(configPath), cli.profile || env.MONGO_SCOUT_PROFILE);
+    profileName = resolved.name;
+    profile = resolved.profile;
+  } else if (cli.profile || env.MONGO_SCOUT_PROFILE) {
+    throw new Error('--profile requires a config file (--config or MONGO_SCOUT_CONFIG)');
+  }
+
+  const connections: Record<string, ConnectionConfig> = {};
+  for (const [name, connection] of Object.entries(profile.connections || {})) {
+    connections[name] = {
+      uri: connection.uri,
+      database: connection.database || 'test',
+      mode: connection.mode || 'read-only',
+    };
+  }
+
+  const envLoggingEnabled = env.ENABLE_LOGGING !== undefined ? env.ENABLE_LOGGING === 'true' : undefined;
+  const envJournalEnabled = env.MONGO_SCOUT_JOURNAL !== undefined ? env.MONGO_SCOUT_JOURNAL !== 'false' : undefined;
+  const envRecordMetrics = env.MONGO_SCOUT_RECORD_METRICS !== undefined ? env.MONGO_SCOUT_RECORD_METRICS === 'true' : undefined;
+  const logDir = env.LOG_DIR || profile.logging?.dir || './logs';
+  const auditFile = cli.auditFile || env.MONGO_SCOUT_AUDIT_LOG;
+
+  return {
+    uri: cli.uri || env.MONGODB_URI || profile.uri || 'mongodb://localhost:27017',
+    dbName: cli.dbName || env.MONGODB_DATABASE || profile.database || 'test',
+    mode: cli.mode || env.MONGO_SCOUT_MODE || profile.mode || 'read-only',
+    profile: profileName,
+    logging: {
+      enabled: envLoggingEnabled ?? profile.logging?.enabled ?? false,
+      dir: logDir,
+    },
+    audit: {
+      enabled: auditFile !== undefined || (profile.audit?.enabled ?? false),
+      file: auditFile || profile.audit?.file || path.join(logDir, 'audit.jsonl'),
+      maxSizeMB: profile.audit?.maxSizeMB ?? DEFAULT_AUDIT_MAX_SIZE_MB,
+      maxAgeDays: profile.audit?.maxAgeDays ?? DEFAULT_AUDIT_MAX_AGE_DAYS,
+      retentionDays: profile.audit?.retentionDays ?? DEFAULT_AUDIT_RETENTION_DAYS,
+      key: env.MONGO_SCOUT_AUDIT_KEY || profile.audit?.key,
+    },
+    journal: {
+      enabled: envJournalEnabled ?? profile.journal?.enabled ?? true,
+      maxDocuments: profile.journal?.maxDocuments ?? DEFAULT_JOURNAL_MAX_DOCUMENTS,
+      maxSizeMB: profile.journal?.maxSizeMB ?? DEFAULT_JOURNAL_MAX_SIZE_MB,
+      collectionSizeMB: profile.journal?.collectionSizeMB ?? DEFAULT_JOURNAL_COLLECTION_SIZE_MB,
+    },
+    cursors: {
+      maxOpen: profile.cursors?.maxOpen ?? DEFAULT_MAX_OPEN_CURSORS,
+      idleTimeoutMinutes: profile.cursors?.idleTimeoutMinutes ?? DEFAULT_CURSOR_IDLE_TIMEOUT_MINUTES,
+    },
+    schemaSnapshots: {
+      dir: env.MONGO_SCOUT_SCHEMA_SNAPSHOT_DIR || profile.schemaSnapshots?.dir || DEFAULT_SCHEMA_SNAPSHOT_DIR,
+      maxPerCollection: profile.schemaSnapshots?.maxPerCollection ?? DEFAULT_SCHEMA_SNAPSHOTS_PER_COLLECTION,
+    },
+    queryBaselines: {
+      dir: env.MONGO_SCOUT_QUERY_BASELINE_DIR || profile.queryBaselines?.dir || DEFAULT_QUERY_BASELINE_DIR,
+    },
+    metrics: {
+      intervalSeconds: profile.metrics?.intervalSeconds ?? DEFAULT_METRICS_INTERVAL_SECONDS,
+      maxSamples: profile.metrics?.maxSamples ?? DEFAULT_METRICS_MAX_SAMPLES,
+      file: env.MONGO_SCOUT_METRICS_FILE || profile.metrics?.file,
+      recordOnStart: envRecordMetrics ?? profile.metrics?.recordOnStart ?? false,
+    },
+    alerts: {
+      rules: (profile.alerts?.rules ?? []).map((rule) => ({
+        ...rule,
+        condition: rule.condition ?? 'above',
+        forSeconds: rule.forSeconds ?? 0,
+      })),
+      webhook: env.MONGO_SCOUT_ALERT_WEBHOOK || profile.alerts?.webhook,
+      command: profile.alerts?.command,
+    },
+    rateLimits: {
+      adminPerMinute:
+        parsePositiveInt(env.MONGO_SCOUT_ADMIN_RATE_LIMIT, 'MONGO_SCOUT_ADMIN_RATE_LIMIT') ??
+        profile.rateLimits?.adminPerMinute ??
+        DEFAULT_ADMIN_RATE_LIMIT,
+    },
+    allowedCollections: parseList(env.MONGO_SCOUT_ALLOWED_COLLECTIONS) ?? profile.allowedCollections,
+    limits: {
+      maxDocuments:
+        parsePositiveInt(env.MONGO_SCOUT_MAX_DOCUMENTS, 'MONGO_SCOUT_MAX_DOCUMENTS') ??
+        profile.limits?.maxDocuments,
+      maxResponseBytes:
+        parsePositiveInt(env.MONGO_SCOUT_MAX_RESPONSE_BYTES, 'MONGO_SCOUT_MAX_RESPONSE_BYTES') ??
+        profile.limits?.maxResponseBytes ??
+        DEFAULT_MAX_RESPONSE_BYTES,
+    },
+    connections,
+    policy: profile.policy || {},
+    pii: {
+      mode: cli.piiMode || parsePiiMode(env.MONGO_SCOUT_PII_MODE) || profile.pii?.mode || 'off',
+      detectors: profile.pii?.detectors || [],
+      salt: env.MONGO_SCOUT_PII_SALT || profile.pii?.salt,
+    },
+    transport: cli.transport || 'stdio',
+    http: {
+      host: cli.host || DEFAULT_HTTP_HOST,
+      port: cli.port ?? DEFAULT_HTTP_PORT,
+      authToken: cli.authToken || env.MCP_AUTH_TOKEN || undefined,
+      sessionIdleMinutes:
+        parsePositiveInt(env.MCP_SESSION_IDLE_MINUTES, 'MCP_SESSION_IDLE_MINUTES') ?? DEFAULT_HTTP_SESSION_IDLE_MINUTES,
+    },
+  };
+}
+
+function parseCliArgs(args: string[]): CliArgs {
+  const cli: CliArgs = {};
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     if (arg === '--read-only') {
-      mode = 'read-only';
+      cli.mode = 'read-only';
     } else if (arg === '--read-write') {
-      mode = 'read-write';
+      cli.mode = 'read-write';
     } else if (arg === '--mode' && i + 1 < args.length) {
-      mode = args[++i];
-    } else if (!uri) {
-      uri = arg;
-    } else if (!dbName) {
-      dbName = arg;
+      cli.mode = args[++i];
+    } else if (arg === '--config' && i + 1 < args.length) {
+      cli.configPath = args[++i];
+    } else if (arg === '--profile' && i + 1 < args.length) {
+      cli.profile = args[++i];
+    } else if (arg === '--http') {
+      cli.transport = 'http';
+    } else if (arg === '--transport' && i + 1 < args.length) {
+      cli.transport = parseTransport(args[++i]);
+    } else if (arg === '--host' && i + 1 < args.length) {
+      cli.host = args[++i];
+    } else if (arg === '--port' && i + 1 < args.length) {
+      cli.port = parsePort(args[++i]);
+    } else if (arg === '--auth-token' && i + 1 < args.length) {
+      cli.authToken = args[++i];
+    } else if (arg === '--audit-log' && i + 1 < args.length) {
+      cli.auditFile = args[++i];
+    } else if (arg === '--pii-mode' && i + 1 < args.length) {
+      cli.piiMode = parsePiiMode(args[++i]);
+    } else if (!cli.uri) {
+      cli.uri = arg;
+    } else if (!cli.dbName) {
+      cli.dbName = arg;
     }
   }
 
-  uri = uri || 'mongodb://localhost:27017';
-  dbName = dbName || 'test';
+  return cli;
+}
 
-  return { uri, dbName, mode, logDir: './logs' };
+function parseTransport(value: string): TransportMode {
+  if (value !== 'stdio' && value !== 'http') {
+    throw new Error(`Invalid transport '${value}'. Expected 'stdio' or 'http'.`);
+  }
+  return value;
+}
+
+function parsePiiMode(value: string | undefined): PiiMode | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (value !== 'off' && value !== 'mask' && value !== 'hash') {
+    throw new Error(`Invalid PII mode '${value}'. Expected 'off', 'mask' or 'hash'.`);
+  }
+  return value;
+}
+
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port '${value}'. Expected an integer between 0 and 65535.`);
+  }
+  return port;
+}
+
+function parsePositiveInt(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${name} '${value}'. Expected a positive integer.`);
+  }
+  return parsed;
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
 }
@@ -1,9 +1,51 @@
 import { MongoClient } from 'mongodb';
 import { parseArgs } from './config/environment.js';
 import { setupServer } from './server/setup.js';
+import { createConnectionRegistry, type ConnectionRegistry } from './server/connections.js';
+import { configureLogging } from './utils/logger.js';
+import { configureAdminRateLimit } from './utils/rate-limiter.js';
+import { configureLimits } from './utils/limits.js';
+import { configureResponseBudget } from './utils/response-budget.js';
+import { configureAccessPolicy } from './utils/access-policy.js';
+import { configurePii } from './utils/pii.js';
+import { configureAuditLog, flushAuditLog } from './utils/audit-log.js';
+import { configureJournal } from './utils/journal.js';
+import { closeAllCursors, configureCursors } from './utils/cursors.js';
+import { configureSchemaSnapshots } from './utils/schema-snapshots.js';
+import { configureQueryBaselines } from './utils/query-baselines.js';
+import { configureMetrics, stopAllRecordings } from './utils/metrics-recorder.js';
+import { configureAlerts } from './utils/alerts.js';
+import type { AppConfig } from './types.js';
 
-const { uri, dbName, mode } = parseArgs();
-const client = new MongoClient(uri);
+let config: AppConfig;
+let client: MongoClient;
+let connections: ConnectionRegistry;
+try {
+  config = parseArgs();
+  configureLogging(config.logging);
+  configureAuditLog(config.audit);
+  configureAdminRateLimit(config.rateLimits.adminPerMinute);
+  configureLimits({ allowedCollections: config.allowedCollections, maxDocuments: config.limits.maxDocuments });
+  configureResponseBudget(config.limits.maxResponseBytes);
+  configureAccessPolicy(config.policy);
+  configurePii(config.pii);
+  configureJournal(config.journal);
+  configureCursors(config.cursors);
+  configureSchemaSnapshots(config.schemaSnapshots);
+  configureQueryBaselines(config.queryBaselines);
+  configureMetrics(config.metrics);
+  configureAlerts(config.alerts);
+
+  client = new MongoClient(config.uri);
+  connections = createConnectionRegistry(
+    { uri: config.uri, database: config.dbName, mode: config.mode },
+    client,
+    config.connections
+  );
+} catch (error) {
+  console.error('Configuration error:', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
 
 let isShuttingDown = false;
 
@@ -14,7 +56,10 @@ async function shutdown() {
   isShuttingDown = true;
 
   try {
-    await client.close();
+    stopAllRecordings();
+    await flushAuditLog();
+    await closeAllCursors();
+    await connections.closeAll();
   } catch (error) {
     console.error('Error during shutdown:', error);
   }
@@ -24,7 +69,7 @@ async function shutdown() {
 async function main() {
   try {
     await client.connect();
-    await setupServer(client, dbName, mode);
+    await setupServer(connections, config);
   } catch (error) {
     console.error('Error:', error instanceof Error ? error.message : String(error));
     if (String(error).includes('Authentication failed')) {
@@ -39,6 +84,6 @@ process.on('SIGTERM', shutdown);
 
 main().catch((error) => {
   console.error('Fatal error:', error);
-  client.close().catch(console.error);
+  connections.closeAll().catch(console.error);
   process.exit(1);
 });
@@ -0,0 +1,232 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { callRegisteredTool } from '../tools/registrar.js';
+import { logError } from '../utils/logger.js';
+
+// Each embedded tool result gets its own budget so one large output can't crowd out the rest
+const TOOL_OUTPUT_BYTES = 20_000;
+const MAX_AUDITED_FIELDS = 10;
+
+interface ToolCall {
+  tool: string;
+  args: Record<string, unknown>;
+}
+
+const collectionArgs = {
+  collection: z.string().describe('Collection to investigate'),
+  database: z.string().optional().describe('Database (defaults to the session database)'),
+};
+
+/**
+ * Registers prompts for common investigations. Each one runs the relevant
+ * tools against the session's active connection and hands their output to
+ * the model together with instructions for the workflow.
+ */
+export function registerAllPrompts(server: McpServer): void {
+  server.registerPrompt(
+    'diagnose-slow-collection',
+    {
+      title: 'Diagnose slow collection',
+      description: 'Collect metrics, index usage and indexes for a collection and look for the cause of slow operations',
+      argsSchema: collectionArgs,
+    },
+    async ({ collection, database }) => {
+      const target = { collection, database };
+      const context = await gatherToolOutputs(server, [
+        { tool: 'getCollectionMetrics', args: target },
+        { tool: 'listIndexes', args: target },
+      ]);
+      return userPrompt(
+        `Diagnose why operations on the collection '${collection}' are slow.\n\n` +
+          'Using the metrics and indexes below:\n' +
+          '1. Check document count, average document size and storage size for signs of bloat.\n' +
+          '2. Compare index usage counters: flag unused indexes and look for heavy operation types without a supporting index.\n' +
+          '3. Look at current and recent operations for long-running or frequent queries.\n' +
+          '4. Summarize the most likely causes, ordered by impact, and propose concrete next steps ' +
+          '(e.g. analyzeQueryPerformance on a suspect query, createIndex, dropping unused indexes).',
+        context
+      );
+    }
+  );
+
+  server.registerPrompt(
+    'audit-data-quality',
+    {
+      title: 'Audit data quality for a collection',
+      description: 'Check a collection for missing fields and inconsistent field types',
+      argsSchema: {
+        ...collectionArgs,
+        fields: z
+          .string()
+          .optional()
+          .describe('Comma-separated fields to check (defaults to the fields found in a sample)'),
+      },
+    },
+    async ({ collection, database, fields }) => {
+      const target = { collection, database };
+      const calls: ToolCall[] = [];
+      const sections: string[] = [];
+      let fieldList = parseFieldList(fields);
+      if (fieldList.length === 0) {
+        // inferSchema also applies the access policy, so hidden fields are never audited
+        const schemaCall = { tool: 'inferSchema', args: { ...target, outputFormat: 'json' } };
+        const schemaText = await runTool(server, schemaCall);
+        sections.push(formatSection(schemaCall, schemaText));
+        fieldList = fieldsFromSchema(schemaText);
+      }
+
+      const audited = fieldList.slice(0, MAX_AUDITED_FIELDS);
+      if (audited.length > 0) {
+        calls.push({ tool: 'findMissingFields', args: { ...target, requiredFields: audited, options: { includeDocuments: false } } });
+        for (const field of audited) {
+          calls.push({ tool: 'findInconsistentTypes', args: { ...target, field, options: { samplesPerType: 2 } } });
+        }
+        sections.push(await gatherToolOutputs(server, calls));
+      }
+
+      const context = sections.join('\n\n');
+      const skipped = fieldList.length - audited.length;
+      return userPrompt(
+        `Audit the data quality of the collection '${collection}'.\n\n` +
+          'Using the results below:\n' +
+          '1. List fields that are missing from a significant share of documents and whether they look optional or required.\n' +
+          '2. List fields stored with more than one type, with the share of each type and example values.\n' +
+          '3. Rate the overall data quality and propose fixes in order of impact, naming the tool to use for each ' +
+          '(updateMany with dryRun, renameField, a $jsonSchema validator).' +
+          (skipped > 0 ? `\n\nOnly the first ${audited.length} fields were checked; ${skipped} more were skipped.` : ''),
+        context
+      );
+    }
+  );
+
+  server.registerPrompt(
+    'design-indexes',
+    {
+      title: 'Design indexes for a query',
+      description: 'Explain a query and propose indexes that support its filter and sort',
+      argsSchema: {
+        ...collectionArgs,
+        filter: z.string().describe('Query filter as (Extended) JSON, e.g. {"status": "open", "createdAt": {"$gte": {"$date": "2024-01-01T00:00:00Z"}}}'),
+        sort: z.string().optional().describe('Sort as JSON, e.g. {"createdAt": -1}'),
+      },
+    },
+    async ({ collection, database, filter, sort }) => {
+      const target = { collection, database };
+      const query = { filter: parseJsonArgument('filter', filter), sort: sort ? parseJsonArgument('sort', sort) : undefined };
+      const context = await gatherToolOutputs(server, [
+        { tool: 'analyzeQueryPerformance', args: { ...target, query } },
+        { tool: 'listIndexes', args: target },
+      ]);
+      return userPrompt(
+        `Design indexes for this query on the collection '${collection}':\n\n` +
+          `filter: ${filter}\n${sort ? `sort: ${sort}\n` : ''}\n` +
+          'Using the explain analysis and existing indexes below:\n' +
+          '1. Say whether the current plan is efficient (keys and documents examined versus returned, COLLSCAN, in-memory SORT).\n' +
+          '2. Propose a compound index following the equality, sort, range rule, and say whether an existing index can be extended instead.\n' +
+          '3. Point out existing indexes the new one would make redundant.\n' +
+          '4. Give the createIndex call to run.',
+        context
+      );
+    }
+  );
+
+  server.registerPrompt(
+    'plan-field-migration',
+    {
+      title: 'Plan a field migration',
+      description: 'Assess a field and plan a rename or type change with dry runs and rollback',
+      argsSchema: {
+        ...collectionArgs,
+        field: z.string().describe('Field to migrate'),
+        change: z.string().describe('Intended change, e.g. "rename to customerId" or "convert to Date"'),
+      },
+    },
+    async ({ collection, database, field, change }) => {
+      const target = { collection, database };
+      const context = await gatherToolOutputs(server, [
+        { tool: 'findMissingFields', args: { ...target, requiredFields: [field], options: { includeDocuments: false } } },
+        { tool: 'findInconsistentTypes', args: { ...target, field, options: { samplesPerType: 3 } } },
+        { tool: 'listIndexes', args: target },
+      ]);
+      return userPrompt(
+        `Plan a migration of the field '${field}' in the collection '${collection}': ${change}.\n\n` +
+          'Using the results below:\n' +
+          '1. Describe the current state: how many documents lack the field and which types it is stored as.\n' +
+          '2. Identify indexes that include the field and must be rebuilt or replaced.\n' +
+          '3. Write the migration as ordered steps with the exact tool calls (renameField or updateMany), ' +
+          'running each with dryRun first and handling documents with unexpected types or a missing field.\n' +
+          '4. Explain how to verify the result and how to roll back (undoOperation, or a reverse update).',
+        context
+      );
+    }
+  );
+}
+
+/**
+ * Runs the tools in order and formats their output as sections of the prompt
+ */
+async function gatherToolOutputs(server: McpServer, calls: ToolCall[]): Promise<string> {
+  const sections: string[] = [];
+  for (const call of calls) {
+    sections.push(formatSection(call, await runTool(server, call)));
+  }
+  return sections.join('\n\n');
+}
+
+async function runTool(server: McpServer, { tool, args }: ToolCall): Promise<string> {
+  try {
+    const result = await callRegisteredTool(server, tool, { ...args, maxResponseBytes: TOOL_OUTPUT_BYTES });
+    return result.content.map((item) => item.text ?? '').join('\n');
+  } catch (error) {
+    logError(tool, error, args);
+    return `Error: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+function formatSection({ tool, args }: ToolCall, text: string): string {
+  const label = typeof args.field === 'string' ? `${tool} (${args.field})` : tool;
+  return `## ${label}\n\n\`\`\`\n${text}\n\`\`\``;
+}
+
+function userPrompt(instructions: string, context: string) {
+  return {
+    messages: [
+      {
+        role: 'user' as const,
+        content: {
+          type: 'text' as const,
+          text: context ? `${instructions}\n\n# Collected data\n\n${context}` : instructions,
+        },
+      },
+    ],
+  };
+}
+
+function parseFieldList(fields?: string): string[] {
+  return (fields ?? '')
+    .split(',')
+    .map((field) => field.trim())
+    .filter((field) => field.length > 0);
+}
+
+function fieldsFromSchema(schemaText: string): string[] {
+  try {
+    const { fields } = JSON.parse(schemaText) as { fields?: Record<string, unknown> };
+    return Object.keys(fields ?? {}).filter((field) => field !== '_id');
+  } catch {
+    // Empty collection or an error message; the inferSchema section shows which
+    return [];
+  }
+}
+
+function parseJsonArgument(name: string, value: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error(`'${name}' must be a JSON object, got: ${value}`);
+}
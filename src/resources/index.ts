@@ -0,0 +1,206 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type { Db } from 'mongodb';
+import type { ScoutSession } from '../server/connections.js';
+import { onServerClose } from '../server/close-hooks.js';
+import { getCollectionAccessError, protectPipeline } from '../utils/access-policy.js';
+import { runAudited, type AuditContext } from '../utils/audit-log.js';
+import { protectPii } from '../utils/pii.js';
+import { filterCollectionStats } from '../utils/response-filter.js';
+import { inferSchema, sampleDocuments } from '../utils/schema-inference.js';
+import { formatJson } from '../utils/ejson.js';
+import { resolveMaxResponseBytes, runWithResponseBudget } from '../utils/response-budget.js';
+import { onCollectionChanged } from '../utils/resource-events.js';
+import { logError } from '../utils/logger.js';
+import type { PolicyOperation } from '../types.js';
+
+const SCHEMA_SAMPLE_SIZE = 100;
+const SAMPLE_SIZE = 10;
+// Upper bound on the resources each template lists, so large clusters don't flood the client
+const MAX_LISTED_COLLECTIONS = 200;
+const SYSTEM_DATABASES = new Set(['admin', 'local', 'config']);
+
+type ResourceKind = 'schema' | 'indexes' | 'stats' | 'sample';
+
+interface CollectionResource {
+  kind: ResourceKind;
+  description: string;
+  // Policy rule checked before reading, matching the equivalent tool
+  operation: PolicyOperation;
+  read: (db: Db, collection: string) => Promise<unknown>;
+}
+
+const COLLECTION_RESOURCES: CollectionResource[] = [
+  {
+    kind: 'schema',
+    description: 'Field presence, types and values inferred from a sample of the collection',
+    operation: 'read',
+    read: async (db, collection) => {
+      const docs = await sampleDocuments(db, collection, SCHEMA_SAMPLE_SIZE);
+      return { collection, sampledDocuments: docs.length, fields: protectPii(inferSchema(docs)) };
+    },
+  },
+  {
+    kind: 'indexes',
+    description: 'Index definitions of the collection',
+    operation: 'admin',
+    read: (db, collection) => db.collection(collection).listIndexes().toArray(),
+  },
+  {
+    kind: 'stats',
+    description: 'Size, count and storage statistics of the collection',
+    operation: 'admin',
+    read: async (db, collection) =>
+      filterCollectionStats((await db.command({ collStats: collection })) as Record<string, unknown>, 'standard'),
+  },
+  {
+    kind: 'sample',
+    description: `A random sample of up to ${SAMPLE_SIZE} documents, with access rules and PII masking applied`,
+    operation: 'read',
+    read: async (db, collection) => {
+      const pipeline = [{ $sample: { size: SAMPLE_SIZE } }];
+      return protectPii(await db.collection(collection).aggregate(protectPipeline(collection, pipeline)).toArray());
+    },
+  },
+];
+
+export function collectionResourceUri(database: string, collection: string, kind: ResourceKind): string {
+  return `mongodb://${encodeURIComponent(database)}/${encodeURIComponent(collection)}/${kind}`;
+}
+
+/**
+ * Exposes per-collection resources (schema, indexes, stats, sample) on the
+ * session's active connection. Clients can subscribe to them and are
+ * notified when collections are created or dropped through this server.
+ */
+export function registerAllResources(server: McpServer, session: ScoutSession): void {
+  for (const resource of COLLECTION_RESOURCES) {
+    server.registerResource(
+      `collection-${resource.kind}`,
+      new ResourceTemplate(`mongodb://{db}/{collection}/${resource.kind}`, {
+        list: async () => ({
+          resources: (await listCollections(session, resource.operation)).map(({ database, collection }) => ({
+            uri: collectionResourceUri(database, collection, resource.kind),
+            name: `${database}.${collection} ${resource.kind}`,
+            mimeType: 'application/json',
+          })),
+        }),
+        complete: {
+          db: async (value) => (await listDatabaseNames(session)).filter((name) => name.startsWith(value)),
+          collection: async (value, context) => {
+            const database = context?.arguments?.db;
+            if (!database) return [];
+            const names = await listCollectionNames((await session.resolve(undefined, database)).db, resource.operation);
+            return names.filter((name) => name.startsWith(value));
+          },
+        },
+      }),
+      { description: resource.description, mimeType: 'application/json' },
+      async (uri, variables) => readCollectionResource(session, resource, uri, variables)
+    );
+  }
+
+  registerSubscriptions(server, session);
+}
+
+async function readCollectionResource(session: ScoutSession, resource: CollectionResource, uri: URL, variables: Variables) {
+  const database = decodeURIComponent(String(variables.db));
+  const collection = decodeURIComponent(String(variables.collection));
+  const audit: AuditContext = {
+    tool: 'readResource',
+    args: { uri: uri.href },
+    serverMode: session.registry.serverMode,
+    connection: session.activeConnection,
+    database,
+  };
+
+  return runAudited(audit, async () => {
+    const accessError = getCollectionAccessError(collection, resource.operation);
+    if (accessError) {
+      audit.outcome = 'denied';
+      throw new Error(accessError);
+    }
+
+    try {
+      const target = await session.resolve(undefined, database);
+      audit.connectionMode = target.mode;
+      const text = await runWithResponseBudget('readResource', resolveMaxResponseBytes(), async () =>
+        formatJson(await resource.read(target.db, collection))
+      );
+      return { contents: [{ uri: uri.href, mimeType: 'application/json', text }] };
+    } catch (error) {
+      logError('readResource', error, { uri: uri.href });
+      throw error;
+    }
+  });
+}
+
+/**
+ * Tracks the resources the client subscribed to and forwards collection
+ * changes made through any session of this server
+ */
+function registerSubscriptions(server: McpServer, session: ScoutSession): void {
+  const subscriptions = new Set<string>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const unsubscribe = onCollectionChanged((event) => {
+    if (!server.isConnected() || event.connection !== session.activeConnection) {
+      return;
+    }
+
+    if (event.change !== 'updated') {
+      server.sendResourceListChanged();
+    }
+    for (const { kind } of COLLECTION_RESOURCES) {
+      const uri = collectionResourceUri(event.database, event.collection, kind);
+      if (subscriptions.has(uri)) {
+        void server.server.sendResourceUpdated({ uri }).catch(() => {});
+      }
+    }
+  });
+  onServerClose(server, unsubscribe);
+}
+
+async function listDatabaseNames(session: ScoutSession): Promise<string[]> {
+  const { client } = await session.resolve();
+  const { databases } = await client.db().admin().listDatabases({ nameOnly: true });
+  return databases.map((database) => database.name).filter((name) => !SYSTEM_DATABASES.has(name));
+}
+
+async function listCollectionNames(db: Db, operation: PolicyOperation): Promise<string[]> {
+  const collections = await db.listCollections({}, { nameOnly: true }).toArray();
+  return collections
+    .map((collection) => collection.name)
+    .filter((name) => !name.startsWith('system.') && getCollectionAccessError(name, operation) === undefined)
+    .sort();
+}
+
+async function listCollections(
+  session: ScoutSession,
+  operation: PolicyOperation
+): Promise<Array<{ database: string; collection: string }>> {
+  const listed: Array<{ database: string; collection: string }> = [];
+  try {
+    for (const database of await listDatabaseNames(session)) {
+      const { db } = await session.resolve(undefined, database);
+      for (const collection of await listCollectionNames(db, operation)) {
+        if (listed.length >= MAX_LISTED_COLLECTIONS) return listed;
+        listed.push({ database, collection });
+      }
+    }
+  } catch (error) {
+    // Listing needs listDatabases; without it the templates can still be read directly
+    logError('listResources', error);
+  }
+  return listed;
+}
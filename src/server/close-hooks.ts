@@ -0,0 +1,18 @@
+/**
+ * Cleanup when an MCP server closes. In HTTP mode every session has its own
+ * server, and listeners on module-level emitters must be removed with it.
+ */
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+/**
+ * Runs the hook when the server closes, after the hooks added before it.
+ * Modules add hooks here instead of assigning `server.server.onclose`, which
+ * would replace the others.
+ */
+export function onServerClose(server: McpServer, hook: () => void): void {
+  const previous = server.server.onclose;
+  server.server.onclose = () => {
+    previous?.();
+    hook();
+  };
+}
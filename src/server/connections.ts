@@ -0,0 +1,195 @@
+import { MongoClient, type Db } from 'mongodb';
+import type { ConnectionConfig } from '../types.js';
+
+export const DEFAULT_CONNECTION = 'default';
+
+// Connections a client can add with `connect`, on top of the configured ones
+export const MAX_ADDED_CONNECTIONS = 20;
+
+export interface ConnectionInfo {
+  name: string;
+  uri: string;
+  database: string;
+  mode: string;
+  connected: boolean;
+}
+
+export interface ConnectionRegistry {
+  /**
+   * read-write when the primary or any configured connection is read-write.
+   * Write tools are only registered then, and each call is still checked
+   * against the mode of the connection it resolves to.
+   */
+  readonly serverMode: string;
+  list(): ConnectionInfo[];
+  has(name: string): boolean;
+  get(name: string): ConnectionConfig;
+  add(name: string, config: ConnectionConfig): void;
+  getClient(name: string): Promise<MongoClient>;
+  closeAll(): Promise<void>;
+}
+
+/**
+ * The database a tool call runs against, resolved from the session's active
+ * connection or the call's `connection` argument.
+ */
+export interface ToolTarget {
+  connection: string;
+  client: MongoClient;
+  db: Db;
+  dbName: string;
+  mode: string;
+}
+
+/**
+ * Per-MCP-session state. Over stdio there is one session for the process;
+ * over HTTP every client session gets its own, sharing one registry.
+ */
+export interface ScoutSession {
+  readonly registry: ConnectionRegistry;
+  readonly activeConnection: string;
+  switchConnection(name: string): void;
+  /** Changes the default database of a connection for this session only */
+  useDatabase(connection: string, database: string): void;
+  resolve(connection?: string, database?: string): Promise<ToolTarget>;
+}
+
+export function createConnectionRegistry(
+  primary: ConnectionConfig,
+  primaryClient: MongoClient,
+  additional: Record<string, ConnectionConfig> = {}
+): ConnectionRegistry {
+  const serverMode = [primary, ...Object.values(additional)].some((config) => config.mode === 'read-write')
+    ? 'read-write'
+    : 'read-only';
+  const configs = new Map<string, ConnectionConfig>();
+  const clients = new Map<string, Promise<MongoClient>>();
+  let addedCount = 0;
+
+  configs.set(DEFAULT_CONNECTION, primary);
+  clients.set(DEFAULT_CONNECTION, Promise.resolve(primaryClient));
+
+  const get = (name: string): ConnectionConfig => {
+    const config = configs.get(name);
+    if (!config) {
+      throw new Error(`Unknown connection '${name}'. Use listConnections to see available connections.`);
+    }
+    return config;
+  };
+
+  const register = (name: string, config: ConnectionConfig): void => {
+    if (configs.has(name)) {
+      throw new Error(`Connection '${name}' already exists`);
+    }
+    if (config.mode !== 'read-only' && config.mode !== 'read-write') {
+      throw new Error(`Invalid mode '${config.mode}' for connection '${name}'`);
+    }
+    configs.set(name, config);
+  };
+
+  // Configured connections carry their own mode; the config file is trusted
+  for (const [name, config] of Object.entries(additional)) {
+    register(name, config);
+  }
+
+  // Connections added at runtime by a client can't grant more than the primary has
+  const add = (name: string, config: ConnectionConfig): void => {
+    if (config.mode === 'read-write' && primary.mode !== 'read-write') {
+      throw new Error(`Connection '${name}' cannot be read-write because the primary connection is ${primary.mode}`);
+    }
+    if (addedCount >= MAX_ADDED_CONNECTIONS) {
+      throw new Error(`At most ${MAX_ADDED_CONNECTIONS} connections can be added at runtime; add more to the config file instead`);
+    }
+    register(name, config);
+    addedCount++;
+  };
+
+  return {
+    serverMode,
+
+    list() {
+      return Array.from(configs.entries()).map(([name, config]) => ({
+        name,
+        uri: redactUri(config.uri),
+        database: config.database,
+        mode: config.mode,
+        connected: clients.has(name),
+      }));
+    },
+
+    has(name) {
+      return configs.has(name);
+    },
+
+    get,
+
+    add,
+
+    getClient(name) {
+      const existing = clients.get(name);
+      if (existing) {
+        return existing;
+      }
+
+      // Extra clients are opened lazily on first use
+      const config = get(name);
+      const client = new MongoClient(config.uri);
+      const connecting = client.connect().catch((error) => {
+        clients.delete(name);
+        throw error;
+      });
+      clients.set(name, connecting);
+      return connecting;
+    },
+
+    async closeAll() {
+      const pending = Array.from(clients.values());
+      clients.clear();
+      await Promise.allSettled(pending.map(async (client) => (await client).close()));
+    },
+  };
+}
+
+export function createSession(registry: ConnectionRegistry): ScoutSession {
+  let activeConnection = DEFAULT_CONNECTION;
+  const defaultDatabases = new Map<string, string>();
+
+  return {
+    registry,
+
+    get activeConnection() {
+      return activeConnection;
+    },
+
+    switchConnection(name) {
+      registry.get(name);
+      activeConnection = name;
+    },
+
+    useDatabase(connection, database) {
+      registry.get(connection);
+      defaultDatabases.set(connection, database);
+    },
+
+    async resolve(connection, database) {
+      const name = connection || activeConnection;
+      const config = registry.get(name);
+      const client = await registry.getClient(name);
+      const dbName = database || defaultDatabases.get(name) || config.database;
+      return {
+        connection: name,
+        client,
+        db: client.db(dbName),
+        dbName,
+        mode: config.mode,
+      };
+    },
+  };
+}
+
+/**
+ * Hides credentials in a connection string so it can be shown to clients
+ */
+export function redactUri(uri: string): string {
+  return uri.replace(/^(mongodb(?:\+srv)?:\/\/)[^@/]+@/, '$1***:***@');
+}
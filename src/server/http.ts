@@ -0,0 +1,243 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logError } from '../utils/logger.js';
+import type { HttpTransportConfig } from '../types.js';
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+const MAX_BODY_BYTES = 4 * 1024 * 1024; // 4MB
+
+interface Session<T> {
+  transport: T;
+  server: McpServer;
+}
+
+interface StreamableSession extends Session<StreamableHTTPServerTransport> {
+  id: string;
+  activeRequests: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Serves MCP over Streamable HTTP (POST/GET/DELETE /mcp) with the legacy
+ * SSE transport (GET /sse + POST /messages) as a fallback for older clients.
+ */
+export async function startHttpServer(
+  createMcpServer: () => McpServer,
+  config: HttpTransportConfig
+): Promise<Server> {
+  const streamableSessions = new Map<string, StreamableSession>();
+  const sseSessions = new Map<string, Session<SSEServerTransport>>();
+
+  // Unlike SSE sessions, Streamable HTTP sessions aren't tied to a connection that
+  // ends when the client goes away, so one without requests for a while is closed
+  const scheduleIdleClose = (session: StreamableSession): void => {
+    clearTimeout(session.idleTimer);
+    if (!streamableSessions.has(session.id)) return;
+    session.idleTimer = setTimeout(
+      () => void session.transport.close().catch(() => {}),
+      config.sessionIdleMinutes * 60 * 1000
+    );
+    session.idleTimer.unref();
+  };
+
+  // A request in flight (such as an open GET stream) keeps the session alive
+  const trackRequest = (session: StreamableSession, res: ServerResponse): void => {
+    clearTimeout(session.idleTimer);
+    session.activeRequests++;
+    res.once('close', () => {
+      session.activeRequests--;
+      if (session.activeRequests === 0) scheduleIdleClose(session);
+    });
+  };
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === 'string') {
+      const session = streamableSessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      trackRequest(session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        const session: StreamableSession = { id, transport, server, activeRequests: 0 };
+        streamableSessions.set(id, session);
+        trackRequest(session, res);
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        clearTimeout(streamableSessions.get(transport.sessionId)?.idleTimer);
+        streamableSessions.delete(transport.sessionId);
+      }
+      // server.connect() wraps this handler and closes the server after it; calling
+      // server.close() here would close the transport again and recurse
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnect = async (res: ServerResponse): Promise<void> => {
+    const server = createMcpServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sseSessions.set(transport.sessionId, { transport, server });
+
+    res.on('close', () => {
+      sseSessions.delete(transport.sessionId);
+      void server.close().catch(() => {});
+    });
+
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    const sessionId = url.searchParams.get('sessionId');
+    const session = sessionId ? sseSessions.get(sessionId) : undefined;
+    if (!session) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  };
+
+  const httpServer = createServer((req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(
+        JSON.stringify({
+          status: 'ok',
+          sessions: streamableSessions.size + sseSessions.size,
+        })
+      );
+      return;
+    }
+
+    if (!isAuthorized(req, config.authToken)) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Bearer' });
+      res.end(JSON.stringify({ error: 'Unauthorized' }));
+      return;
+    }
+
+    let handler: Promise<void>;
+    if (url.pathname === MCP_PATH) {
+      handler = handleStreamable(req, res);
+    } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+      handler = handleSseConnect(res);
+    } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      handler = handleSseMessage(req, res, url);
+    } else {
+      res.writeHead(404).end();
+      return;
+    }
+
+    handler.catch((error) => {
+      logError('httpTransport', error, { method: req.method, path: url.pathname });
+      if (!res.headersSent) {
+        const status = error instanceof HttpError ? error.status : 500;
+        sendJsonRpcError(res, status, error instanceof Error ? error.message : 'Internal server error');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  if (!config.authToken && !isLoopback(config.host)) {
+    console.error(
+      `Warning: HTTP transport is bound to ${config.host} without an auth token. Set --auth-token or MCP_AUTH_TOKEN.`
+    );
+  }
+  console.error(`MongoDB MCP server listening on http://${config.host}:${config.port}${MCP_PATH}`);
+
+  return httpServer;
+}
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function isAuthorized(req: IncomingMessage, authToken?: string): boolean {
+  if (!authToken) {
+    return true;
+  }
+
+  const header = req.headers.authorization || '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    return false;
+  }
+
+  // Constant-time comparison to avoid leaking the token through timing
+  const provided = Buffer.from(match[1].trim());
+  const expected = Buffer.from(authToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  if (size === 0) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Parse error: request body is not valid JSON');
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(
+    JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code: -32000, message },
+      id: null,
+    })
+  );
+}
@@ -1,18 +1,53 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import type { MongoClient } from 'mongodb';
 import { registerAllTools } from '../tools/index.js';
+import { registerAllResources } from '../resources/index.js';
+import { registerAllPrompts } from '../prompts/index.js';
+import { startHttpServer } from './http.js';
+import { createSession, DEFAULT_CONNECTION, type ConnectionRegistry } from './connections.js';
+import { isRecording, startRecording } from '../utils/metrics-recorder.js';
+import { alertedConnections } from '../utils/alerts.js';
+import type { AppConfig } from '../types.js';
 
-export async function setupServer(client: MongoClient, dbName: string, mode: string): Promise<void> {
-  const db = client.db(dbName);
+export function createMcpServer(registry: ConnectionRegistry): McpServer {
+  const server = new McpServer(
+    {
+      name: `MongoDB MCP (${registry.serverMode})`,
+      version: '1.0.0'
+    },
+    // Logging carries alert notifications
+    { capabilities: { logging: {} } }
+  );
 
-  const server = new McpServer({
-    name: `MongoDB MCP (${mode})`,
-    version: '1.0.0'
-  });
+  const session = createSession(registry);
+  registerAllTools(server, session);
+  registerAllResources(server, session);
+  registerAllPrompts(server);
 
-  registerAllTools(server, client, db, dbName, mode);
+  return server;
+}
+
+export async function setupServer(registry: ConnectionRegistry, config: AppConfig): Promise<void> {
+  if (config.metrics.recordOnStart) {
+    await startRecording(DEFAULT_CONNECTION, () => registry.getClient(DEFAULT_CONNECTION));
+  }
+  // Configured alert rules are evaluated against recorded samples
+  for (const connection of alertedConnections()) {
+    if (!registry.has(connection)) {
+      throw new Error(`Alert rules reference unknown connection '${connection}'`);
+    }
+    if (!isRecording(connection)) {
+      await startRecording(connection, () => registry.getClient(connection));
+    }
+  }
+
+  if (config.transport === 'http') {
+    // Every HTTP session gets its own McpServer, all sharing the same connection registry
+    await startHttpServer(() => createMcpServer(registry), config.http);
+    return;
+  }
 
+  const server = createMcpServer(registry);
   const transport = new StdioServerTransport();
   await server.connect(transport);
 }
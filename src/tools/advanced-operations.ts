@@ -1,16 +1,19 @@
-import type { Db } from 'mongodb';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { logToolUsage, logError } from '../utils/logger.js';
+import { createToolRegistrar } from './registrar.js';
+import type { ScoutSession } from '../server/connections.js';
 import { preprocessQuery } from '../utils/query-preprocessor.js';
+import { capDocumentLimit } from '../utils/limits.js';
+import { redactDocuments, validateProjection } from '../utils/access-policy.js';
+import { protectPii } from '../utils/pii.js';
+import { recordAffectedDocuments } from '../utils/audit-log.js';
+import { captureJournal, commitJournal } from '../utils/journal.js';
+import { checkConfirmationToken, confirmationRequired, consumeConfirmationToken } from '../utils/confirmation.js';
+import { formatJson } from '../utils/ejson.js';
 
-export function registerAdvancedOperations(server: McpServer, db: Db, mode: string): void {
-  const registerTool = (toolName: string, description: string, schema: any, handler: (args?: any) => any, writeOperation = false) => {
-    if (writeOperation && mode === 'read-only') {
-      return;
-    }
-    server.tool(toolName, description, schema, handler);
-  };
+export function registerAdvancedOperations(server: McpServer, session: ScoutSession): void {
+  const registerTool = createToolRegistrar(server, session);
 
   // Preview bulk write operations
   registerTool(
@@ -24,55 +27,15 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
       logToolUsage('previewBulkWrite', args);
       const { collection, operations } = args;
       try {
-        const operationsSummary = {
-          insertOne: 0,
-          updateOne: 0,
-          updateMany: 0,
-          deleteOne: 0,
-          deleteMany: 0,
-          replaceOne: 0
-        };
-
-        // Count operation types
-        operations.forEach((op: Record<string, any>) => {
-          Object.keys(op).forEach(opType => {
-            if (opType in operationsSummary) {
-              operationsSummary[opType as keyof typeof operationsSummary]++;
-            }
-          });
-        });
-
-        // Extract sample operations for each type
-        const samples: Record<string, any> = {};
-        for (const [opType, count] of Object.entries(operationsSummary)) {
-          if (count > 0) {
-            const sample = operations.find((op: Record<string, any>) => opType in op);
-            if (sample) {
-              samples[opType] = sample[opType];
-            }
-          }
-        }
-
-        const totalOps = operations.length;
-        let warning: string | undefined;
-        if (totalOps >= 1000) {
-          warning = '⚠⚠ LARGE BULK OPERATION: 1000+ operations';
-        } else if (totalOps >= 100) {
-          warning = '⚠ Large bulk operation: 100+ operations';
-        }
-
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({
+              text: formatJson({
                 preview: true,
                 collection,
-                totalOperations: totalOps,
-                breakdown: operationsSummary,
-                sampleOperations: samples,
-                message: warning
-              }, null, 2),
+                ...buildBulkWritePreview(operations),
+              }),
             },
           ],
         };
@@ -93,7 +56,7 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
 
   registerTool(
     'bulkWrite',
-    'Execute multiple write operations in a single call. Supports dryRun mode for preview.',
+    'Execute multiple write operations in a single call. Two-phase: the first call returns a preview and a confirmationToken; call again with the same arguments plus the token to execute. Supports dryRun mode for preview.',
     {
       collection: z.string(),
       operations: z.array(z.record(z.any())),
@@ -101,10 +64,12 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
         ordered: z.boolean().optional(),
         dryRun: z.boolean().optional(),
       }).optional(),
+      confirmationToken: z.string().optional(),
     },
-    async (args) => {
+    async (args, target) => {
       logToolUsage('bulkWrite', args);
-      const { collection, operations, options = {} } = args;
+      const { db } = target;
+      const { collection, operations, options = {}, confirmationToken } = args;
       try {
         // Dry run mode - show what would be executed
         if (options.dryRun) {
@@ -129,7 +94,7 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
             content: [
               {
                 type: 'text',
-                text: JSON.stringify({
+                text: formatJson({
                   dryRun: true,
                   operation: 'bulkWrite',
                   collection,
@@ -137,16 +102,66 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
                   breakdown: operationsSummary,
                   ordered: options.ordered ?? true,
                   warning: operations.length > 100 ? '⚠ Large bulk operation detected' : undefined
-                }, null, 2),
+                }),
               },
             ],
           };
         }
 
-        // Actual execution
+        if (!confirmationToken) {
+          return confirmationRequired('bulkWrite', args, target, {
+            collection,
+            ordered: options.ordered ?? true,
+            ...buildBulkWritePreview(operations),
+          });
+        }
+        // Checked first and consumed once the journal is captured, so a journal limit doesn't use up the token
+        const tokenError = checkConfirmationToken('bulkWrite', args, target, confirmationToken);
+        if (tokenError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: tokenError,
+              },
+            ],
+          };
+        }
+
+        // Actual execution. The journal captures every document any filter
+        // matches before the batch runs, which covers whatever the batch changes.
+        const filters = operations.flatMap((op: Record<string, any>) =>
+          ['updateOne', 'updateMany', 'replaceOne', 'deleteOne', 'deleteMany']
+            .filter((opType) => op[opType]?.filter)
+            .map((opType) => op[opType].filter)
+        );
+        const journal = await captureJournal(db, collection, filters);
+        const consumeError = consumeConfirmationToken('bulkWrite', args, target, confirmationToken);
+        if (consumeError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: consumeError,
+              },
+            ],
+          };
+        }
         const result = await db.collection(collection).bulkWrite(operations, {
           ordered: options.ordered
         });
+        recordAffectedDocuments({
+          inserted: result.insertedCount,
+          matched: result.matchedCount,
+          modified: result.modifiedCount,
+          deleted: result.deletedCount,
+          upserted: result.upsertedCount,
+        });
+
+        const journalNote = await commitJournal(db, journal, 'bulkWrite', [
+          ...Object.values(result.insertedIds),
+          ...Object.values(result.upsertedIds),
+        ]);
 
         const totalAffected = result.insertedCount + result.modifiedCount + result.deletedCount;
         const warningText = totalAffected > 100 ? '\n⚠ Large bulk operation completed' : '';
@@ -155,14 +170,14 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
           content: [
             {
               type: 'text',
-              text: JSON.stringify({
+              text: formatJson({
                 insertedCount: result.insertedCount,
                 matchedCount: result.matchedCount,
                 modifiedCount: result.modifiedCount,
                 deletedCount: result.deletedCount,
                 upsertedCount: result.upsertedCount,
                 upsertedIds: result.upsertedIds,
-              }, null, 2) + warningText,
+              }) + warningText + journalNote,
             },
           ],
         };
@@ -193,11 +208,11 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
       pipeline: z.array(z.record(z.any())).optional(),
       verbosity: z.enum(['queryPlanner', 'executionStats', 'allPlansExecution']).optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('explainQuery', args);
       const { collection, operation, query, update, pipeline, verbosity = 'queryPlanner' } = args;
       try {
-        const processedQuery = preprocessQuery(query);
+        const processedQuery = await preprocessQuery(db, collection, query);
         let explainResult;
 
         switch (operation) {
@@ -241,7 +256,7 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
           content: [
             {
               type: 'text',
-              text: JSON.stringify(explainResult, null, 2),
+              text: formatJson(explainResult),
             },
           ],
         };
@@ -270,27 +285,43 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
       limit: z.number().positive().optional(),
       projection: z.record(z.any()).optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('textSearch', args);
-      const { collection, searchText, filter = {}, limit = 10, projection = {} } = args;
+      const { collection, searchText, filter = {}, projection = {} } = args;
+      const limit = capDocumentLimit(args.limit ?? 10) as number;
       try {
+        const projectionError = validateProjection(collection, projection);
+        if (projectionError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: projectionError,
+              },
+            ],
+          };
+        }
+
         const searchQuery = {
           $text: { $search: searchText },
           ...filter
         };
 
-        const results = await db.collection(collection)
-          .find(searchQuery)
-          .project({ ...projection, score: { $meta: 'textScore' } })
-          .sort({ score: { $meta: 'textScore' } })
-          .limit(limit)
-          .toArray();
+        const results = protectPii(redactDocuments(
+          collection,
+          await db.collection(collection)
+            .find(searchQuery)
+            .project({ ...projection, score: { $meta: 'textScore' } })
+            .sort({ score: { $meta: 'textScore' } })
+            .limit(limit)
+            .toArray()
+        ));
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(results, null, 2),
+              text: formatJson(results),
             },
           ],
         };
@@ -309,3 +340,49 @@ export function registerAdvancedOperations(server: McpServer, db: Db, mode: stri
     }
   );
 }
+
+function buildBulkWritePreview(operations: Record<string, any>[]) {
+  const operationsSummary = {
+    insertOne: 0,
+    updateOne: 0,
+    updateMany: 0,
+    deleteOne: 0,
+    deleteMany: 0,
+    replaceOne: 0
+  };
+
+  // Count operation types
+  operations.forEach((op) => {
+    Object.keys(op).forEach(opType => {
+      if (opType in operationsSummary) {
+        operationsSummary[opType as keyof typeof operationsSummary]++;
+      }
+    });
+  });
+
+  // Extract sample operations for each type
+  const samples: Record<string, any> = {};
+  for (const [opType, count] of Object.entries(operationsSummary)) {
+    if (count > 0) {
+      const sample = operations.find((op) => opType in op);
+      if (sample) {
+        samples[opType] = sample[opType];
+      }
+    }
+  }
+
+  const totalOps = operations.length;
+  let warning: string | undefined;
+  if (totalOps >= 1000) {
+    warning = '⚠⚠ LARGE BULK OPERATION: 1000+ operations';
+  } else if (totalOps >= 100) {
+    warning = '⚠ Large bulk operation: 100+ operations';
+  }
+
+  return {
+    totalOperations: totalOps,
+    breakdown: operationsSummary,
+    sampleOperations: samples,
+    message: warning
+  };
+}
@@ -0,0 +1,122 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { logToolUsage, logError } from '../utils/logger.js';
+import { createToolRegistrar } from './registrar.js';
+import type { ScoutSession } from '../server/connections.js';
+import { onServerClose } from '../server/close-hooks.js';
+import { formatJson } from '../utils/ejson.js';
+import { getActiveAlerts, listAlertRules, onAlert, removeAlertRule, setAlertRule } from '../utils/alerts.js';
+import { getRecordingStatus, HISTORY_FIELD_NAMES, isRecording, startRecording } from '../utils/metrics-recorder.js';
+import type { AlertEvent } from '../types.js';
+
+const ALERT_LOGGER = 'mongo-scout.alerts';
+
+export function registerAlertTools(server: McpServer, session: ScoutSession): void {
+  const registerTool = createToolRegistrar(server, session);
+
+  registerTool(
+    'setAlertRule',
+    'Create, replace or remove a threshold alert rule on a recorded metric of the connection. Rule names are per connection; rules from the config file can only be changed there. The rule fires at warning or critical once the metric stays above (or below) the threshold for forSeconds, and is reported by getActiveAlerts and as a logging notification. Starts recording metrics for the connection if needed.',
+    {
+      name: z.string(),
+      metric: z.enum(HISTORY_FIELD_NAMES as [string, ...string[]]).optional().describe('Required unless remove is true'),
+      condition: z.enum(['above', 'below']).optional().describe('Fire when the metric is above (default) or below the thresholds'),
+      warning: z.number().optional(),
+      critical: z.number().optional(),
+      forSeconds: z.number().min(0).optional().describe('How long the threshold must be crossed before the rule fires (default 0)'),
+      remove: z.boolean().optional(),
+    },
+    async (args, { connection }) => {
+      logToolUsage('setAlertRule', args);
+      const { name, metric, condition = 'above', warning, critical, forSeconds = 0, remove = false } = args;
+      try {
+        if (remove) {
+          const removed = removeAlertRule(connection, name);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: removed
+                  ? `Alert rule '${name}' removed from connection '${connection}'`
+                  : `Alert rule '${name}' does not exist on connection '${connection}'`,
+              },
+            ],
+          };
+        }
+
+        if (!metric) {
+          throw new Error('metric is required');
+        }
+        const rule = { name, metric, condition, warning, critical, forSeconds, connection };
+        setAlertRule(rule);
+
+        // Rules are evaluated against recorded samples, so there must be a recording
+        const recording = isRecording(connection)
+          ? getRecordingStatus(connection)
+          : await startRecording(connection, () => session.registry.getClient(connection));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatJson({ rule, recording }),
+            },
+          ],
+        };
+      } catch (error) {
+        logError('setAlertRule', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error setting alert rule: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    },
+    true
+  );
+
+  registerTool(
+    'getActiveAlerts',
+    'List alert rules that are firing, critical first, and rules past a threshold that have not yet held it for their full duration (pending)',
+    {
+      includeRules: z.boolean().optional().describe('Also list every configured rule'),
+    },
+    async (args) => {
+      logToolUsage('getActiveAlerts', args);
+      const { includeRules = false } = args;
+      const alerts = getActiveAlerts();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatJson({
+              firing: alerts.filter((alert) => alert.state === 'firing').length,
+              pending: alerts.filter((alert) => alert.state === 'pending').length,
+              alerts,
+              rules: includeRules ? listAlertRules() : undefined,
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  // Alerts reach the client as logging notifications, whichever connection they come from
+  const unsubscribe = onAlert((event) => {
+    if (!server.isConnected()) {
+      return;
+    }
+    server.sendLoggingMessage({ level: loggingLevel(event), logger: ALERT_LOGGER, data: event }).catch((error) => {
+      logError('alertNotification', error, event);
+    });
+  });
+  onServerClose(server, unsubscribe);
+}
+
+function loggingLevel(event: AlertEvent): 'critical' | 'warning' | 'info' {
+  return event.level === 'resolved' ? 'info' : event.level;
+}
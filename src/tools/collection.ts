@@ -1,19 +1,19 @@
-import type { Db } from 'mongodb';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { logToolUsage, logError } from '../utils/logger.js';
+import { createToolRegistrar } from './registrar.js';
+import type { ScoutSession } from '../server/connections.js';
 import { filterCollectionStats, excludeZeroMetrics } from '../utils/response-filter.js';
+import { isCollectionAllowed } from '../utils/limits.js';
+import { confirmationRequired, consumeConfirmationToken } from '../utils/confirmation.js';
+import { formatJson } from '../utils/ejson.js';
+import { notifyCollectionChanged } from '../utils/resource-events.js';
 import type { VerbosityLevel } from '../types.js';
 
-export function registerCollectionTools(server: McpServer, db: Db, mode: string): void {
-  const registerTool = (toolName: string, description: string, schema: any, handler: (args?: any) => any, writeOperation = false) => {
-    if (writeOperation && mode === 'read-only') {
-      return;
-    }
-    server.tool(toolName, description, schema, handler);
-  };
+export function registerCollectionTools(server: McpServer, session: ScoutSession): void {
+  const registerTool = createToolRegistrar(server, session);
 
-  registerTool('listCollections', 'List all collections in the database', {}, async () => {
+  registerTool('listCollections', 'List all collections in the database', {}, async (_args, { db }) => {
     logToolUsage('listCollections', {});
     try {
       const collections = await db.collections();
@@ -21,7 +21,10 @@ export function registerCollectionTools(server: McpServer, db: Db, mode: string)
         content: [
           {
             type: 'text',
-            text: collections.map((c) => c.collectionName).join('\n'),
+            text: collections
+              .map((c) => c.collectionName)
+              .filter((name) => isCollectionAllowed(name))
+              .join('\n'),
           },
         ],
       };
@@ -38,11 +41,12 @@ export function registerCollectionTools(server: McpServer, db: Db, mode: string)
       name: z.string(),
       options: z.record(z.any()).optional(),
     },
-    async (args) => {
+    async (args, { db, dbName, connection }) => {
       logToolUsage('createCollection', args);
       const { name, options = {} } = args;
       try {
         await db.createCollection(name, options);
+        notifyCollectionChanged({ connection, database: dbName, collection: name, change: 'created' });
         return {
           content: [
             {
@@ -69,15 +73,16 @@ export function registerCollectionTools(server: McpServer, db: Db, mode: string)
 
   registerTool(
     'dropCollection',
-    'Drop a collection from the database. DESTRUCTIVE: Requires confirm: true to execute.',
+    'Drop a collection from the database. DESTRUCTIVE and two-phase: the first call returns a preview and a confirmationToken; call again with the same arguments plus the token to execute.',
     {
       name: z.string(),
-      confirm: z.boolean().optional(),
       dryRun: z.boolean().optional(),
+      confirmationToken: z.string().optional(),
     },
-    async (args) => {
+    async (args, target) => {
       logToolUsage('dropCollection', args);
-      const { name, confirm = false, dryRun = false } = args;
+      const { db } = target;
+      const { name, dryRun = false, confirmationToken } = args;
       try {
         // Get collection stats for preview
         let stats;
@@ -87,39 +92,50 @@ export function registerCollectionTools(server: McpServer, db: Db, mode: string)
           stats = null;
         }
 
+        const preview = {
+          collection: name,
+          exists: stats !== null,
+          documentCount: stats?.count || 0,
+          sizeBytes: stats?.size || 0,
+          warning: '⚠ This operation will permanently delete all documents and indexes in this collection'
+        };
+
         // Dry run mode - show what would be dropped
         if (dryRun) {
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify({
+                text: formatJson({
                   dryRun: true,
                   operation: 'dropCollection',
-                  collection: name,
-                  exists: stats !== null,
-                  documentCount: stats?.count || 0,
-                  sizeBytes: stats?.size || 0,
-                  warning: '⚠ This operation will permanently delete all documents and indexes in this collection'
-                }, null, 2),
+                  ...preview,
+                }),
               },
             ],
           };
         }
 
-        // Require explicit confirmation
-        if (!confirm) {
+        // Require a second call carrying the token issued with the preview
+        if (!confirmationToken) {
+          return confirmationRequired('dropCollection', args, target, preview);
+        }
+        const tokenError = consumeConfirmationToken('dropCollection', args, target, confirmationToken);
+        if (tokenError) {
           return {
             content: [
               {
                 type: 'text',
-                text: `Operation blocked: dropCollection is destructive and requires explicit confirmation. Set confirm: true to proceed. Collection '${name}' has ${stats?.count || 0} documents.`,
+                text: tokenError,
               },
             ],
           };
         }
 
         const result = await db.collection(name).drop();
+        if (result) {
+          notifyCollectionChanged({ connection: target.connection, database: target.dbName, collection: name, change: 'dropped' });
+        }
         return {
           content: [
             {
@@ -152,7 +168,7 @@ export function registerCollectionTools(server: McpServer, db: Db, mode: string)
       verbosity: z.enum(['summary', 'standard', 'full']).optional(),
       excludeZeroMetrics: z.boolean().optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('getCollectionStats', args);
       const { collection, verbosity = 'summary', excludeZeroMetrics: excludeZero = true } = args;
       try {
@@ -170,7 +186,7 @@ export function registerCollectionTools(server: McpServer, db: Db, mode: string)
           content: [
             {
               type: 'text',
-              text: JSON.stringify(filtered, null, 2),
+              text: formatJson(filtered),
             },
           ],
         };
@@ -0,0 +1,110 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { logToolUsage, logError } from '../utils/logger.js';
+import { createToolRegistrar } from './registrar.js';
+import { MAX_ADDED_CONNECTIONS, type ScoutSession } from '../server/connections.js';
+import { formatJson } from '../utils/ejson.js';
+
+export function registerConnectionTools(server: McpServer, session: ScoutSession): void {
+  const registerTool = createToolRegistrar(server, session);
+
+  registerTool('listConnections', 'List named MongoDB connections and show which one is active', {}, async () => {
+    logToolUsage('listConnections', {});
+    try {
+      const connections = session.registry.list().map((connection) => ({
+        ...connection,
+        active: connection.name === session.activeConnection,
+      }));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatJson(connections),
+          },
+        ],
+      };
+    } catch (error) {
+      logError('listConnections', error);
+      throw error;
+    }
+  });
+
+  registerTool(
+    'switchConnection',
+    'Switch the active connection used by tools that are called without a connection argument',
+    {
+      name: z.string(),
+    },
+    async (args) => {
+      logToolUsage('switchConnection', args);
+      const { name } = args;
+      try {
+        session.switchConnection(name);
+        const { database, mode } = session.registry.get(name);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Active connection is now '${name}' (database: ${database}, mode: ${mode}).`,
+            },
+          ],
+        };
+      } catch (error) {
+        logError('switchConnection', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error switching connection: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  registerTool(
+    'connect',
+    `Register a new named connection. The client is opened lazily on first use. Connections are read-only unless mode is read-write and the primary connection is read-write too. At most ${MAX_ADDED_CONNECTIONS} connections can be added.`,
+    {
+      name: z.string().regex(/^[A-Za-z0-9_-]+$/),
+      uri: z.string(),
+      database: z.string().optional(),
+      mode: z.enum(['read-only', 'read-write']).optional(),
+      activate: z.boolean().optional(),
+    },
+    async (args) => {
+      logToolUsage('connect', { ...args, uri: '[REDACTED]' });
+      const { name, uri, database = 'test', mode = 'read-only', activate = false } = args;
+      try {
+        session.registry.add(name, { uri, database, mode });
+
+        if (activate) {
+          session.switchConnection(name);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Connection '${name}' registered (database: ${database}, mode: ${mode})${activate ? ' and is now active' : ''}.`,
+            },
+          ],
+        };
+      } catch (error) {
+        logError('connect', error, { ...args, uri: '[REDACTED]' });
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error connecting: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    },
+    true
+  );
+}
@@ -0,0 +1,110 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { logToolUsage, logError } from '../utils/logger.js';
+import { createToolRegistrar } from './registrar.js';
+import type { ScoutSession } from '../server/connections.js';
+import { onServerClose } from '../server/close-hooks.js';
+import { capDocumentLimit } from '../utils/limits.js';
+import { closeCursorSession, closeCursorsOf, cursorExpiresAt, formatCursorPage, getCursorSession, readNextPage } from '../utils/cursors.js';
+
+export function registerCursorTools(server: McpServer, session: ScoutSession): void {
+  const registerTool = createToolRegistrar(server, session);
+
+  onServerClose(server, () => void closeCursorsOf(session));
+
+  registerTool(
+    'getMore',
+    'Fetch the next page of an open cursor returned by find or aggregate',
+    {
+      cursorId: z.string(),
+      pageSize: z.number().int().positive().optional(),
+    },
+    async (args) => {
+      logToolUsage('getMore', args);
+      const { cursorId } = args;
+      try {
+        const cursorSession = getCursorSession(cursorId, session);
+        if (!cursorSession) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Cursor '${cursorId}' not found. It may have been exhausted, closed, or expired after being idle; run the query again.`,
+              },
+            ],
+          };
+        }
+
+        const pageSize = capDocumentLimit(args.pageSize ?? cursorSession.pageSize) as number;
+        const page = await readNextPage(cursorSession, pageSize);
+        const documents = cursorSession.protect(page.documents);
+        const text = await formatCursorPage(page, cursorSession, (count, openSession) => ({
+          documents: documents.slice(0, count),
+          metadata: {
+            collection: cursorSession.collection,
+            database: cursorSession.database,
+            returned: count,
+            totalReturned: cursorSession.returned,
+            hasMore: openSession !== undefined,
+            cursorId: openSession?.id,
+            expiresAt: openSession && cursorExpiresAt(openSession),
+          },
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text,
+            },
+          ],
+        };
+      } catch (error) {
+        logError('getMore', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error fetching next page: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  registerTool(
+    'closeCursor',
+    'Close an open cursor returned by find or aggregate when no more pages are needed',
+    {
+      cursorId: z.string(),
+    },
+    async (args) => {
+      logToolUsage('closeCursor', args);
+      const { cursorId } = args;
+      try {
+        const closed = getCursorSession(cursorId, session) !== undefined && (await closeCursorSession(cursorId));
+        return {
+          content: [
+            {
+              type: 'text',
+              text: closed ? `Cursor '${cursorId}' closed.` : `Cursor '${cursorId}' not found; it may already be closed or expired.`,
+            },
+          ],
+        };
+      } catch (error) {
+        logError('closeCursor', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error closing cursor: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
@@ -1,16 +1,19 @@
-import type { Db } from 'mongodb';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { logToolUsage, logError } from '../utils/logger.js';
+import { createToolRegistrar } from './registrar.js';
+import type { ScoutSession } from '../server/connections.js';
 import { preprocessQuery } from '../utils/query-preprocessor.js';
+import { capDocumentLimit } from '../utils/limits.js';
+import { hasFieldRules, protectPipeline, redactDocuments, validateProjection } from '../utils/access-policy.js';
+import { protectPii } from '../utils/pii.js';
+import { recordAffectedDocuments } from '../utils/audit-log.js';
+import { captureJournal, commitJournal } from '../utils/journal.js';
+import { formatJson, stringifyExtendedJson } from '../utils/ejson.js';
+import { notifyCollectionChanged } from '../utils/resource-events.js';
 
-export function registerDataQualityTools(server: McpServer, db: Db, mode: string): void {
-  const registerTool = (toolName: string, description: string, schema: any, handler: (args?: any) => any, writeOperation = false) => {
-    if (writeOperation && mode === 'read-only') {
-      return;
-    }
-    server.tool(toolName, description, schema, handler);
-  };
+export function registerDataQualityTools(server: McpServer, session: ScoutSession): void {
+  const registerTool = createToolRegistrar(server, session);
 
   registerTool(
     'findDuplicates',
@@ -25,7 +28,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         includeDocuments: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('findDuplicates', args);
       const { collection, fields, options = {} } = args;
       const {
@@ -97,7 +100,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
 
         pipeline.push(projectStage);
 
-        const duplicateGroups = await collectionObj.aggregate(pipeline).toArray();
+        const duplicateGroups = protectPii(await collectionObj.aggregate(protectPipeline(collection, pipeline)).toArray());
 
         // Calculate statistics
         const totalDocuments = await collectionObj.countDocuments({});
@@ -136,7 +139,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
           content: [
             {
               type: 'text',
-              text: JSON.stringify(
+              text: formatJson(
                 {
                   collection,
                   fieldsCombination: fields,
@@ -150,9 +153,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
                   },
                   duplicateGroups,
                   recommendations,
-                },
-                null,
-                2
+                }
               ),
             },
           ],
@@ -186,7 +187,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         projection: z.record(z.any()).optional(),
       }).optional(),
     },
-    async (args) => {
+    async (args, { db, dbName, connection }) => {
       logToolUsage('cloneCollection', args);
       const { source, destination, options = {} } = args;
       const {
@@ -246,7 +247,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
 
         // Get source stats
         const sourceStats = await db.command({ collStats: source });
-        const processedFilter = preprocessQuery(filter);
+        const processedFilter = await preprocessQuery(db, source, filter);
         const matchCount = await db.collection(source).countDocuments(processedFilter);
         const indexes = await db.collection(source).indexes();
 
@@ -260,7 +261,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(
+                text: formatJson(
                   {
                     dryRun: true,
                     source: {
@@ -278,9 +279,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
                     },
                     warnings,
                     estimatedTimeMs: Math.floor(matchCount / 1000) * 100,
-                  },
-                  null,
-                  2
+                  }
                 ),
               },
             ],
@@ -303,7 +302,11 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
 
         pipeline.push({ $out: destination });
 
-        await db.collection(source).aggregate(pipeline).toArray();
+        await db.collection(source).aggregate(protectPipeline(source, pipeline)).toArray();
+
+        if (hasFieldRules(source)) {
+          warnings.push(`Protected fields of '${source}' were hidden or masked in the copy`);
+        }
 
         let indexesCopied = 0;
 
@@ -335,12 +338,14 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
 
         const executionTimeMs = Date.now() - startTime;
         const destStats = await db.command({ collStats: destination });
+        recordAffectedDocuments({ inserted: destStats.count });
+        notifyCollectionChanged({ connection, database: dbName, collection: destination, change: 'created' });
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(
+              text: formatJson(
                 {
                   source: { collection: source, documentCount: sourceStats.count },
                   destination: {
@@ -351,9 +356,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
                   },
                   executionTimeMs,
                   warnings: warnings.length > 0 ? warnings : undefined,
-                },
-                null,
-                2
+                }
               ),
             },
           ],
@@ -389,22 +392,35 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         pretty: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('exportCollection', args);
       const { collection, options = {} } = args;
       const {
         format = 'json',
         filter = {},
         projection,
-        limit,
         sort,
         flatten = true,
         pretty = false,
       } = options;
 
+      const limit = capDocumentLimit(options.limit);
+
       try {
         const warnings: string[] = [];
-        const processedFilter = preprocessQuery(filter);
+        const projectionError = validateProjection(collection, projection);
+        if (projectionError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: projectionError,
+              },
+            ],
+          };
+        }
+
+        const processedFilter = await preprocessQuery(db, collection, filter);
 
         // Get documents
         let cursor = db.collection(collection).find(processedFilter);
@@ -413,18 +429,18 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         if (sort) cursor = cursor.sort(sort);
         if (limit) cursor = cursor.limit(limit);
 
-        const documents = await cursor.toArray();
+        const documents = protectPii(redactDocuments(collection, await cursor.toArray()));
 
         if (documents.length === 0) {
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify({
+                text: formatJson({
                   documentsExported: 0,
                   message: 'No documents match filter',
                   suggestion: 'Check filter criteria or use find() to verify data exists',
-                }, null, 2),
+                }),
               },
             ],
           };
@@ -437,14 +453,14 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         switch (format) {
           case 'json': {
             data = pretty
-              ? JSON.stringify(documents, null, 2)
-              : JSON.stringify(documents);
+              ? stringifyExtendedJson(documents)
+              : stringifyExtendedJson(documents, 0);
             sizeBytes = Buffer.byteLength(data, 'utf8');
             break;
           }
 
           case 'jsonl': {
-            data = documents.map(doc => JSON.stringify(doc)).join('\n');
+            data = documents.map(doc => stringifyExtendedJson(doc, 0)).join('\n');
             sizeBytes = Buffer.byteLength(data, 'utf8');
             break;
           }
@@ -508,11 +524,6 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
 
         const executionTimeMs = Date.now() - startTime;
 
-        // Warn for large exports
-        if (sizeBytes > 1000000) { // > 1MB
-          warnings.push('⚠ Large export - consider saving to file or using limit parameter');
-        }
-
         const result: any = {
           collection,
           format,
@@ -525,19 +536,14 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
           result.warnings = warnings;
         }
 
-        // For reasonable sizes, include the data
-        if (sizeBytes <= 100000) { // <= 100KB
-          result.data = format === 'json' ? documents : data;
-        } else {
-          result.preview = data.substring(0, 200) + '...';
-          result.message = 'Data too large to display. Use limit parameter to reduce size.';
-        }
+        // Trimmed to the response budget by formatJson when too large
+        result.data = format === 'json' ? documents : data;
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(result, null, 2),
+              text: formatJson(result),
             },
           ],
         };
@@ -568,13 +574,13 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         includeDocuments: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('findMissingFields', args);
       const { collection, requiredFields, options = {} } = args;
       const { filter = {}, sampleSize, includeDocuments = true } = options;
 
       try {
-        const processedFilter = preprocessQuery(filter);
+        const processedFilter = await preprocessQuery(db, collection, filter);
         const collectionObj = db.collection(collection);
 
         // Get total documents to check
@@ -587,10 +593,10 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
             content: [
               {
                 type: 'text',
-                text: JSON.stringify({
+                text: formatJson({
                   collection,
                   message: 'No documents found matching filter',
-                }, null, 2),
+                }),
               },
             ],
           };
@@ -619,7 +625,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
               .limit(3)
               .toArray();
 
-            missingFieldCounts[field].sampleDocuments = samples;
+            missingFieldCounts[field].sampleDocuments = protectPii(redactDocuments(collection, samples));
           }
         }
 
@@ -659,7 +665,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
           content: [
             {
               type: 'text',
-              text: JSON.stringify(
+              text: formatJson(
                 {
                   collection,
                   totalDocuments,
@@ -669,9 +675,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
                   documentsComplete,
                   completionRate,
                   recommendations,
-                },
-                null,
-                2
+                }
               ),
             },
           ],
@@ -704,7 +708,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         samplesPerType: z.number().positive().max(10).optional(),
       }).optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('findInconsistentTypes', args);
       const { collection, field, options = {} } = args;
       const {
@@ -715,7 +719,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
       } = options;
 
       try {
-        const processedFilter = preprocessQuery(filter);
+        const processedFilter = await preprocessQuery(db, collection, filter);
         const collectionObj = db.collection(collection);
 
         // Build aggregation pipeline
@@ -763,18 +767,18 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         // Sort by count descending
         pipeline.push({ $sort: { count: -1 } });
 
-        const results = await collectionObj.aggregate(pipeline).toArray();
+        const results = await collectionObj.aggregate(protectPipeline(collection, pipeline)).toArray();
 
         if (results.length === 0) {
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify({
+                text: formatJson({
                   collection,
                   field,
                   message: 'No documents found matching filter',
-                }, null, 2),
+                }),
               },
             ],
           };
@@ -793,7 +797,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
           };
 
           if (includeSamples) {
-            types[typeName].samples = result.samples.slice(0, samplesPerType);
+            types[typeName].samples = protectPii(result.samples.slice(0, samplesPerType));
           }
         });
 
@@ -815,7 +819,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
           content: [
             {
               type: 'text',
-              text: JSON.stringify(
+              text: formatJson(
                 {
                   collection,
                   field,
@@ -824,9 +828,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
                   types,
                   dominantType,
                   recommendations,
-                },
-                null,
-                2
+                }
               ),
             },
           ],
@@ -860,7 +862,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         dropOldIndex: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('renameField', args);
       const { collection, oldFieldName, newFieldName, options = {} } = args;
       const {
@@ -876,7 +878,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
 
         // Build filter that only matches documents with the old field
         const renameFilter = {
-          ...preprocessQuery(filter),
+          ...(await preprocessQuery(db, collection, filter)),
           [oldFieldName]: { $exists: true },
         };
 
@@ -888,11 +890,11 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
             content: [
               {
                 type: 'text',
-                text: JSON.stringify({
+                text: formatJson({
                   documentsAffected: 0,
                   message: `No documents found with field '${oldFieldName}'`,
                   suggestion: 'Check field name spelling or use find() to verify data',
-                }, null, 2),
+                }),
               },
             ],
           };
@@ -900,7 +902,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
 
         // Dry run mode
         if (dryRun) {
-          const samples = await collectionObj.find(renameFilter).limit(3).toArray();
+          const samples = protectPii(redactDocuments(collection, await collectionObj.find(renameFilter).limit(3).toArray()));
 
           const beforeAfter = samples.map(doc => {
             const before = { ...doc };
@@ -915,7 +917,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(
+                text: formatJson(
                   {
                     dryRun: true,
                     collection,
@@ -924,9 +926,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
                     documentsAffected: affectedCount,
                     samples: beforeAfter,
                     estimatedTimeMs: Math.ceil(affectedCount / 1000) * 100,
-                  },
-                  null,
-                  2
+                  }
                 ),
               },
             ],
@@ -953,9 +953,12 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         // Execute rename
         const startTime = Date.now();
 
+        const journal = await captureJournal(db, collection, [renameFilter]);
         const result = await collectionObj.updateMany(renameFilter, {
           $rename: { [oldFieldName]: newFieldName },
         });
+        recordAffectedDocuments({ matched: result.matchedCount, modified: result.modifiedCount });
+        const journalNote = await commitJournal(db, journal, 'renameField');
 
         const executionTimeMs = Date.now() - startTime;
 
@@ -1013,7 +1016,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
           content: [
             {
               type: 'text',
-              text: JSON.stringify(
+              text: formatJson(
                 {
                   collection,
                   oldFieldName,
@@ -1022,10 +1025,8 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
                   indexesUpdated,
                   executionTimeMs,
                   warnings: warnings.length > 0 ? warnings : undefined,
-                },
-                null,
-                2
-              ),
+                }
+              ) + journalNote,
             },
           ],
         };
@@ -1061,7 +1062,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         includeRecommendations: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('analyzeQueryPerformance', args);
       const { collection, query = {}, options = {} } = args;
       const {
@@ -1077,7 +1078,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
 
       try {
         const collectionObj = db.collection(collection);
-        const processedFilter = preprocessQuery(filter);
+        const processedFilter = await preprocessQuery(db, collection, filter);
 
         // Build query
         let cursor = collectionObj.find(processedFilter);
@@ -1159,7 +1160,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
           content: [
             {
               type: 'text',
-              text: JSON.stringify(analysis, null, 2),
+              text: formatJson(analysis),
             },
           ],
         };
@@ -1192,7 +1193,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
         includeDocuments: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('findOrphans', args);
       const { collection, foreignKey, referenceCollection, options = {} } = args;
       const {
@@ -1212,16 +1213,16 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
             content: [
               {
                 type: 'text',
-                text: JSON.stringify({
+                text: formatJson({
                   error: `Reference collection '${referenceCollection}' does not exist`,
                   suggestion: 'Use listCollections() to see available collections',
-                }, null, 2),
+                }),
               },
             ],
           };
         }
 
-        const processedFilter = preprocessQuery(filter);
+        const processedFilter = await preprocessQuery(db, collection, filter);
         const startTime = Date.now();
 
         // Build aggregation pipeline to find orphans
@@ -1265,12 +1266,12 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
           });
         }
 
-        const orphans = await collectionObj.aggregate(pipeline).toArray();
+        const orphans = protectPii(await collectionObj.aggregate(protectPipeline(collection, pipeline)).toArray());
 
         // Count total orphans (without limit)
         const countPipeline = pipeline.slice(0, -2); // Remove limit and project
         countPipeline.push({ $count: 'total' });
-        const countResult = await collectionObj.aggregate(countPipeline).toArray();
+        const countResult = await collectionObj.aggregate(protectPipeline(collection, countPipeline)).toArray();
         const totalOrphans = countResult.length > 0 ? countResult[0].total : 0;
 
         const executionTimeMs = Date.now() - startTime;
@@ -1312,7 +1313,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
           content: [
             {
               type: 'text',
-              text: JSON.stringify(
+              text: formatJson(
                 {
                   collection,
                   foreignKey,
@@ -1328,9 +1329,7 @@ export function registerDataQualityTools(server: McpServer, db: Db, mode: string
                   orphans: includeDocuments ? orphans : orphans.map(o => ({ _id: o._id, [foreignKey]: o[foreignKey] })),
                   executionTimeMs,
                   recommendations,
-                },
-                null,
-                2
+                }
               ),
             },
           ],
@@ -1,16 +1,14 @@
-import type { MongoClient } from 'mongodb';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
 import { logToolUsage, logError } from '../utils/logger.js';
+import { createToolRegistrar } from './registrar.js';
+import type { ScoutSession } from '../server/connections.js';
+import { formatJson } from '../utils/ejson.js';
 
-export function registerDatabaseTools(server: McpServer, client: MongoClient, mode: string): void {
-  const registerTool = (toolName: string, description: string, schema: any, handler: (args?: any) => any, writeOperation = false) => {
-    if (writeOperation && mode === 'read-only') {
-      return;
-    }
-    server.tool(toolName, description, schema, handler);
-  };
+export function registerDatabaseTools(server: McpServer, session: ScoutSession): void {
+  const registerTool = createToolRegistrar(server, session);
 
-  registerTool('listDatabases', 'List all databases in the MongoDB instance', {}, async () => {
+  registerTool('listDatabases', 'List all databases in the MongoDB instance', {}, async (_args, { client }) => {
     logToolUsage('listDatabases', {});
     try {
       const databasesList = await client.db().admin().listDatabases();
@@ -18,7 +16,7 @@ export function registerDatabaseTools(server: McpServer, client: MongoClient, mo
         content: [
           {
             type: 'text',
-            text: JSON.stringify(databasesList.databases, null, 2),
+            text: formatJson(databasesList.databases),
           },
         ],
       };
@@ -27,4 +25,44 @@ export function registerDatabaseTools(server: McpServer, client: MongoClient, mo
       throw error;
     }
   });
+
+  registerTool(
+    'useDatabase',
+    'Change the default database for this session. Tools called without a database argument will use it.',
+    {
+      name: z.string(),
+    },
+    async (args, { client, connection }) => {
+      logToolUsage('useDatabase', args);
+      const { name } = args;
+      try {
+        const { databases } = await client.db().admin().listDatabases({ nameOnly: true });
+        const exists = databases.some((database) => database.name === name);
+
+        session.useDatabase(connection, name);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: exists
+                ? `Default database for connection '${connection}' is now '${name}'.`
+                : `Default database for connection '${connection}' is now '${name}'. Note: '${name}' does not exist yet and will be created on first write.`,
+            },
+          ],
+        };
+      } catch (error) {
+        logError('useDatabase', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error changing database: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
 }
@@ -1,22 +1,37 @@
-import type { Db } from 'mongodb';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Db, Document } from 'mongodb';
 import { z } from 'zod';
 import { logToolUsage, logError } from '../utils/logger.js';
+import { createToolRegistrar } from './registrar.js';
+import type { ScoutSession } from '../server/connections.js';
+import type { MongoFilter } from '../types.js';
 import { preprocessQuery } from '../utils/query-preprocessor.js';
-import { shouldBlockFilter, validateFilter, getOperationWarning } from '../utils/filter-validator.js';
-
-export function registerDocumentTools(server: McpServer, db: Db, mode: string): void {
-  const registerTool = (toolName: string, description: string, schema: any, handler: (args?: any) => any, writeOperation = false) => {
-    if (writeOperation && mode === 'read-only') {
-      return;
-    }
-    server.tool(toolName, description, schema, handler);
-  };
+import { validateFilter, getOperationWarning } from '../utils/filter-validator.js';
+import { capDocumentLimit, capPipeline } from '../utils/limits.js';
+import { protectPipeline, redactDocument, redactDocuments, validateProjection } from '../utils/access-policy.js';
+import { protectPii } from '../utils/pii.js';
+import { recordAffectedDocuments } from '../utils/audit-log.js';
+import { captureJournal, commitJournal } from '../utils/journal.js';
+import { checkConfirmationToken, confirmationRequired, consumeConfirmationToken } from '../utils/confirmation.js';
+import { cursorExpiresAt, formatCursorPage, openCursorSession, readPage } from '../utils/cursors.js';
+import {
+  decodeKeysetToken,
+  encodeKeysetToken,
+  keysetFilter,
+  keysetSort,
+  projectSortFields,
+  sortKeyValues,
+  stripFields,
+} from '../utils/keyset.js';
+import { formatJson, formatPage } from '../utils/ejson.js';
+
+export function registerDocumentTools(server: McpServer, session: ScoutSession): void {
+  const registerTool = createToolRegistrar(server, session);
 
   // Read operations
   registerTool(
     'find',
-    'Find documents in a collection that match the specified query',
+    'Find documents in a collection that match the specified query. Returns one page of `limit` documents; when more match, the response includes a cursorId for getMore, or a nextToken with pagination: "keyset".',
     {
       collection: z.string(),
       query: z.record(z.any()).optional(),
@@ -25,46 +40,146 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
       skip: z.number().nonnegative().optional(),
       sort: z.record(z.number()).optional(),
       hint: z.record(z.number()).optional(),
+      pagination: z
+        .enum(['cursor', 'keyset'])
+        .optional()
+        .describe("'cursor' (default) keeps a server-side cursor open for getMore; 'keyset' returns a stable nextToken based on the sort key and _id"),
+      nextToken: z.string().optional().describe('Continue a keyset pagination from the previous page (same query and sort)'),
+      includeTotal: z.boolean().optional().describe('Also count all matching documents (slow on large collections)'),
     },
-    async (args) => {
+    async (args, target) => {
       logToolUsage('find', args);
-      const { collection, query = {}, projection = {}, limit = 10, skip = 0, sort = {} as any, hint } = args;
+      const { db } = target;
+      const { collection, query = {}, projection = {}, skip = 0, sort = {} as any, hint, nextToken, includeTotal = false } = args;
+      const pagination = nextToken ? 'keyset' : args.pagination ?? 'cursor';
+      const limit = capDocumentLimit(args.limit ?? 10) as number;
       try {
-        const processedQuery = preprocessQuery(query);
+        const projectionError = validateProjection(collection, projection);
+        if (projectionError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: projectionError,
+              },
+            ],
+          };
+        }
+
+        const processedQuery = await preprocessQuery(db, collection, query);
+        const protect = (docs: Document[]) => protectPii(redactDocuments(collection, docs));
+        const total = includeTotal ? await db.collection(collection).countDocuments(processedQuery) : undefined;
+
+        if (pagination === 'keyset') {
+          if (nextToken && skip > 0) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: 'skip cannot be combined with nextToken; the token already marks where the next page starts.',
+                },
+              ],
+            };
+          }
+
+          const sortKeys = keysetSort(sort);
+          const keysetQuery = nextToken
+            ? { $and: [processedQuery, keysetFilter(sortKeys, decodeKeysetToken(nextToken, collection, query, sortKeys))] }
+            : processedQuery;
+          const { projection: keysetProjection, added } = projectSortFields(projection, sortKeys);
+
+          let cursor = db
+            .collection(collection)
+            .find(keysetQuery)
+            .project(keysetProjection)
+            .sort(Object.fromEntries(sortKeys))
+            .skip(skip)
+            .limit(limit + 1);
+          if (hint) {
+            cursor = cursor.hint(hint);
+          }
+
+          const docs = await cursor.toArray();
+          const page = docs.slice(0, limit);
+          const positions = page.map((doc) => sortKeyValues(sortKeys, doc));
+          stripFields(page, added);
+          const documents = protect(page);
+
+          // The token continues after the last document that fits in the response;
+          // when none fits, the incoming token still marks the same position
+          const { text } = formatPage(documents.length, (count) => {
+            const hasMore = docs.length > limit || count < documents.length;
+            let token: string | undefined;
+            if (hasMore) {
+              token =
+                count > 0 ? encodeKeysetToken(collection, query, sortKeys, positions[count - 1]) : nextToken;
+            }
+            return {
+              documents: documents.slice(0, count),
+              metadata: { returned: count, limit, total, hasMore, nextToken: token },
+            };
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              },
+            ],
+          };
+        }
 
         let cursor = db
           .collection(collection)
           .find(processedQuery)
           .project(projection)
-          .limit(limit)
           .skip(skip)
-          .sort(sort);
+          .sort(sort)
+          .batchSize(limit + 1);
 
         if (hint) {
           cursor = cursor.hint(hint);
         }
 
-        const docs = await cursor.toArray();
-
-        const total = await db.collection(collection).countDocuments(processedQuery);
+        const page = await readPage(cursor, limit);
+        if (page.exhausted) {
+          await cursor.close();
+        }
+        const documents = protect(page.documents);
+        const text = await formatCursorPage(
+          page,
+          () =>
+            openCursorSession({
+              owner: session,
+              tool: 'find',
+              collection,
+              database: target.dbName,
+              connection: target.connection,
+              cursor,
+              pageSize: limit,
+              protect,
+              returned: page.documents.length,
+            }),
+          (count, cursorSession) => ({
+            documents: documents.slice(0, count),
+            metadata: {
+              returned: count,
+              limit,
+              skip,
+              total,
+              hasMore: cursorSession !== undefined,
+              cursorId: cursorSession?.id,
+              expiresAt: cursorSession && cursorExpiresAt(cursorSession),
+            },
+          })
+        );
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(
-                {
-                  documents: docs,
-                  metadata: {
-                    total,
-                    limit,
-                    skip,
-                    hasMore: total > skip + docs.length,
-                  },
-                },
-                null,
-                2,
-              ),
+              text,
             },
           ],
         };
@@ -85,22 +200,72 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
 
   registerTool(
     'aggregate',
-    'Run an aggregation pipeline on a collection',
+    'Run an aggregation pipeline on a collection. With pageSize, returns one page and a cursorId for getMore when more results remain.',
     {
       collection: z.string(),
       pipeline: z.array(z.record(z.any())),
       options: z.record(z.any()).optional(),
+      pageSize: z.number().int().positive().optional(),
     },
-    async (args) => {
+    async (args, target) => {
       logToolUsage('aggregate', args);
+      const { db } = target;
       const { collection, pipeline, options = {} } = args;
       try {
-        const result = await db.collection(collection).aggregate(pipeline, options).toArray();
+        if (args.pageSize !== undefined) {
+          const pageSize = capDocumentLimit(args.pageSize) as number;
+          const cursor = db
+            .collection(collection)
+            .aggregate(protectPipeline(collection, pipeline), { ...options, batchSize: pageSize + 1 });
+          const page = await readPage(cursor, pageSize);
+          if (page.exhausted) {
+            await cursor.close();
+          }
+          const documents = protectPii(page.documents);
+          const text = await formatCursorPage(
+            page,
+            () =>
+              openCursorSession({
+                owner: session,
+                tool: 'aggregate',
+                collection,
+                database: target.dbName,
+                connection: target.connection,
+                cursor,
+                pageSize,
+                protect: protectPii,
+                returned: page.documents.length,
+              }),
+            (count, cursorSession) => ({
+              documents: documents.slice(0, count),
+              metadata: {
+                returned: count,
+                pageSize,
+                hasMore: cursorSession !== undefined,
+                cursorId: cursorSession?.id,
+                expiresAt: cursorSession && cursorExpiresAt(cursorSession),
+              },
+            })
+          );
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text,
+              },
+            ],
+          };
+        }
+
+        const result = protectPii(
+          await db.collection(collection).aggregate(capPipeline(protectPipeline(collection, pipeline)), options).toArray()
+        );
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(result, null, 2),
+              text: formatJson(result),
             },
           ],
         };
@@ -126,11 +291,11 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
       collection: z.string(),
       query: z.record(z.any()).optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('count', args);
       const { collection, query = {} } = args;
       try {
-        const processedQuery = preprocessQuery(query);
+        const processedQuery = await preprocessQuery(db, collection, query);
         const count = await db.collection(collection).countDocuments(processedQuery);
         return {
           content: [
@@ -163,17 +328,18 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
       field: z.string(),
       query: z.record(z.any()).optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('distinct', args);
       const { collection, field, query = {} } = args;
       try {
-        const processedQuery = preprocessQuery(query);
-        const values = await db.collection(collection).distinct(field, processedQuery);
+        const processedQuery = await preprocessQuery(db, collection, query);
+        const allValues = await db.collection(collection).distinct(field, processedQuery);
+        const values = protectPii(allValues.slice(0, capDocumentLimit(allValues.length)));
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(values, null, 2),
+              text: formatJson(values),
             },
           ],
         };
@@ -201,29 +367,18 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
       filter: z.record(z.any()),
       limit: z.number().positive().max(100).optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('previewUpdate', args);
       const { collection, filter, limit = 3 } = args;
       try {
-        const processedFilter = preprocessQuery(filter);
-        const validation = validateFilter(processedFilter);
-
-        const matchCount = await db.collection(collection).countDocuments(processedFilter);
-        const sampleDocs = await db.collection(collection).find(processedFilter).limit(limit).toArray();
-
-        const smartWarning = getOperationWarning(matchCount, 'update');
+        const processedFilter = await preprocessQuery(db, collection, filter);
+        const preview = await buildUpdatePreview(db, collection, processedFilter, limit);
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({
-                willAffect: matchCount,
-                sampleDocuments: sampleDocs,
-                samplesShown: sampleDocs.length,
-                message: smartWarning || (matchCount <= 10 ? `✓ Will update ${matchCount} document${matchCount !== 1 ? 's' : ''}` : undefined),
-                filterWarning: validation.warning,
-              }, null, 2),
+              text: formatJson(preview),
             },
           ],
         };
@@ -250,29 +405,18 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
       filter: z.record(z.any()),
       limit: z.number().positive().max(100).optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('previewDelete', args);
       const { collection, filter, limit = 3 } = args;
       try {
-        const processedFilter = preprocessQuery(filter);
-        const validation = validateFilter(processedFilter);
-
-        const deleteCount = await db.collection(collection).countDocuments(processedFilter);
-        const sampleDocs = await db.collection(collection).find(processedFilter).limit(limit).toArray();
-
-        const smartWarning = getOperationWarning(deleteCount, 'delete');
+        const processedFilter = await preprocessQuery(db, collection, filter);
+        const preview = await buildDeletePreview(db, collection, processedFilter, limit);
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({
-                willDelete: deleteCount,
-                sampleDocuments: sampleDocs,
-                samplesShown: sampleDocs.length,
-                message: smartWarning || (deleteCount <= 10 ? `✓ Will delete ${deleteCount} document${deleteCount !== 1 ? 's' : ''}` : undefined),
-                filterWarning: validation.warning,
-              }, null, 2),
+              text: formatJson(preview),
             },
           ],
         };
@@ -299,11 +443,12 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
       collection: z.string(),
       document: z.record(z.any()),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('insertOne', args);
       const { collection, document } = args;
       try {
         const result = await db.collection(collection).insertOne(document);
+        recordAffectedDocuments({ inserted: 1 });
         return {
           content: [
             {
@@ -336,11 +481,12 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
       documents: z.array(z.record(z.any())),
       options: z.record(z.any()).optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('insertMany', args);
       const { collection, documents, options = {} } = args;
       try {
         const result = await db.collection(collection).insertMany(documents, options);
+        recordAffectedDocuments({ inserted: result.insertedCount });
         return {
           content: [
             {
@@ -377,12 +523,13 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
         upsert: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('updateOne', args);
       const { collection, filter, update, options = {} } = args;
       try {
-        const processedFilter = preprocessQuery(filter);
+        const processedFilter = await preprocessQuery(db, collection, filter);
         const result = await db.collection(collection).updateOne(processedFilter, update, options);
+        recordAffectedDocuments({ matched: result.matchedCount, modified: result.modifiedCount, upserted: result.upsertedCount });
 
         return {
           content: [
@@ -410,7 +557,7 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
 
   registerTool(
     'updateMany',
-    'Update multiple documents that match the filter. Supports dryRun mode, empty filter protection, and maxDocuments limit.',
+    'Update multiple documents that match the filter. Two-phase: the first call returns a preview and a confirmationToken; call again with the same arguments plus the token to execute. Supports dryRun mode and maxDocuments limit.',
     {
       collection: z.string(),
       filter: z.record(z.any()),
@@ -418,28 +565,16 @@ export function registerDocumentTools(server: McpServer, db: Db, mode: string):
       options: z.object({
         upsert: z.boolean().optional(),
         dryRun: z.boolean().optional(),
-        allowEmptyFilter: z.boolean().optional(),
         maxDocuments: z.number().positive().optional(),
       }).optional(),
+      confirmationToken: z.string().optional(),
     },
-    async (args) => {
+    async (args, target) => {
       logToolUsage('updateMany', args);
-      const { collection, filter, update, options = {} } = args;
+      const { db } = target;
+      const { collection, filter, update, options = {}, confirmationToken } = args;
       try {
-        const processedFilter = preprocessQuery(filter);
-
-        // Check for empty filter safety
-        const filterCheck = shouldBlockFilter(processedFilter, options.allowEmptyFilter, 'Update');
-        if (filterCheck.blocked) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: filterCheck.reason,
-              },
-            ],
-          };
-        }
+        const processedFilter = await preprocessQuery(db, collection, filter);
 
         // Count documents that would be affected
         const matchCount = await db.collection(collection).countDocuments(processedFilter);
@@ -461,14 +596,14 @@ Or increase maxDocuments limit if this is intentional`,
 
         // Dry run mode - show what would be updated
         if (options.dryRun) {
-          const sampleDocs = await db.collection(collection).find(processedFilter).limit(3).toArray();
+          const sampleDocs = protectPii(redactDocuments(collection, await db.collection(collection).find(processedFilter).limit(3).toArray()));
           const smartWarning = getOperationWarning(matchCount, 'update');
 
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify({
+                text: formatJson({
                   dryRun: true,
                   operation: 'updateMany',
                   collection,
@@ -476,16 +611,50 @@ Or increase maxDocuments limit if this is intentional`,
                   sampleDocuments: sampleDocs,
                   updateOperation: update,
                   message: smartWarning
-                }, null, 2),
+                }),
+              },
+            ],
+          };
+        }
+
+        if (!confirmationToken) {
+          return confirmationRequired('updateMany', args, target, {
+            collection,
+            ...(await buildUpdatePreview(db, collection, processedFilter, 3)),
+            updateOperation: update,
+          });
+        }
+        // Checked first and consumed once the journal is captured, so a journal limit doesn't use up the token
+        const tokenError = checkConfirmationToken('updateMany', args, target, confirmationToken);
+        if (tokenError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: tokenError,
               },
             ],
           };
         }
 
         // Actual execution
+        const journal = await captureJournal(db, collection, [processedFilter]);
+        const consumeError = consumeConfirmationToken('updateMany', args, target, confirmationToken);
+        if (consumeError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: consumeError,
+              },
+            ],
+          };
+        }
         const result = await db.collection(collection).updateMany(processedFilter, update, {
           upsert: options.upsert
         });
+        recordAffectedDocuments({ matched: result.matchedCount, modified: result.modifiedCount, upserted: result.upsertedCount });
+        const journalNote = await commitJournal(db, journal, 'updateMany', [result.upsertedId]);
 
         const smartWarning = getOperationWarning(result.matchedCount, 'update');
 
@@ -493,7 +662,7 @@ Or increase maxDocuments limit if this is intentional`,
           content: [
             {
               type: 'text',
-              text: `Matched: ${result.matchedCount}, Modified: ${result.modifiedCount}${result.upsertedCount ? `, Upserted: ${result.upsertedCount}` : ''}${smartWarning ? `\n${smartWarning}` : ''}`,
+              text: `Matched: ${result.matchedCount}, Modified: ${result.modifiedCount}${result.upsertedCount ? `, Upserted: ${result.upsertedCount}` : ''}${smartWarning ? `\n${smartWarning}` : ''}${journalNote}`,
             },
           ],
         };
@@ -524,18 +693,23 @@ Or increase maxDocuments limit if this is intentional`,
         upsert: z.boolean().optional(),
       }).optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('replaceOne', args);
       const { collection, filter, replacement, options = {} } = args;
       try {
-        const processedFilter = preprocessQuery(filter);
-        const result = await db.collection(collection).replaceOne(processedFilter, replacement, options);
+        const processedFilter = await preprocessQuery(db, collection, filter);
+        const journal = await captureJournal(db, collection, [processedFilter], { single: true });
+        // Pin the write to the journaled document so the pre-image is the one replaced
+        const writeFilter = journal?.documents[0] ? { $and: [processedFilter, { _id: journal.documents[0]._id }] } : processedFilter;
+        const result = await db.collection(collection).replaceOne(writeFilter, replacement, options);
+        recordAffectedDocuments({ matched: result.matchedCount, modified: result.modifiedCount, upserted: result.upsertedCount });
+        const journalNote = await commitJournal(db, journal, 'replaceOne', [result.upsertedId]);
 
         return {
           content: [
             {
               type: 'text',
-              text: `Matched: ${result.matchedCount}, Modified: ${result.modifiedCount}${result.upsertedId ? `, Upserted ID: ${result.upsertedId}` : ''}`,
+              text: `Matched: ${result.matchedCount}, Modified: ${result.modifiedCount}${result.upsertedId ? `, Upserted ID: ${result.upsertedId}` : ''}${journalNote}`,
             },
           ],
         };
@@ -569,11 +743,11 @@ Or increase maxDocuments limit if this is intentional`,
         })
         .optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('findOneAndUpdate', args);
       const { collection, filter, update, options = {} } = args;
       try {
-        const processedFilter = preprocessQuery(filter);
+        const processedFilter = await preprocessQuery(db, collection, filter);
 
         let mongoOptions: Record<string, any> = {};
 
@@ -585,16 +759,22 @@ Or increase maxDocuments limit if this is intentional`,
           mongoOptions.upsert = options.upsert;
         }
 
-        const result = await db.collection(collection).findOneAndUpdate(processedFilter, update, mongoOptions);
+        const journal = await captureJournal(db, collection, [processedFilter], { single: true });
+        const writeFilter = journal?.documents[0] ? { $and: [processedFilter, { _id: journal.documents[0]._id }] } : processedFilter;
+        const { value, lastErrorObject } = await db
+          .collection(collection)
+          .findOneAndUpdate(writeFilter, update, { ...mongoOptions, includeResultMetadata: true });
+        const result = protectPii(redactDocument(collection, value));
 
-        // MongoDB driver v6+ returns the document directly (or null)
         // The document returned depends on returnDocument option: 'before' or 'after'
+        recordAffectedDocuments({ matched: result ? 1 : 0, upserted: lastErrorObject?.upserted ? 1 : 0 });
+        const journalNote = await commitJournal(db, journal, 'findOneAndUpdate', [lastErrorObject?.upserted]);
         if (result) {
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(result, null, 2),
+                text: formatJson(result) + journalNote,
               },
             ],
           };
@@ -633,12 +813,13 @@ Or increase maxDocuments limit if this is intentional`,
       collection: z.string(),
       filter: z.record(z.any()),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('deleteOne', args);
       const { collection, filter } = args;
       try {
-        const processedFilter = preprocessQuery(filter);
+        const processedFilter = await preprocessQuery(db, collection, filter);
         const result = await db.collection(collection).deleteOne(processedFilter);
+        recordAffectedDocuments({ deleted: result.deletedCount });
         return {
           content: [
             {
@@ -665,34 +846,22 @@ Or increase maxDocuments limit if this is intentional`,
 
   registerTool(
     'deleteMany',
-    'Delete multiple documents that match the filter. Supports dryRun mode, empty filter protection, and maxDocuments limit.',
+    'Delete multiple documents that match the filter. Two-phase: the first call returns a preview and a confirmationToken; call again with the same arguments plus the token to execute. Supports dryRun mode and maxDocuments limit.',
     {
       collection: z.string(),
       filter: z.record(z.any()),
       options: z.object({
         dryRun: z.boolean().optional(),
-        allowEmptyFilter: z.boolean().optional(),
         maxDocuments: z.number().positive().optional(),
       }).optional(),
+      confirmationToken: z.string().optional(),
     },
-    async (args) => {
+    async (args, target) => {
       logToolUsage('deleteMany', args);
-      const { collection, filter, options = {} } = args;
+      const { db } = target;
+      const { collection, filter, options = {}, confirmationToken } = args;
       try {
-        const processedFilter = preprocessQuery(filter);
-
-        // Check for empty filter safety
-        const filterCheck = shouldBlockFilter(processedFilter, options.allowEmptyFilter, 'Delete');
-        if (filterCheck.blocked) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: filterCheck.reason,
-              },
-            ],
-          };
-        }
+        const processedFilter = await preprocessQuery(db, collection, filter);
 
         // Count documents that would be affected
         const deleteCount = await db.collection(collection).countDocuments(processedFilter);
@@ -714,28 +883,61 @@ Or increase maxDocuments limit if this is intentional`,
 
         // Dry run mode - show what would be deleted
         if (options.dryRun) {
-          const sampleDocs = await db.collection(collection).find(processedFilter).limit(3).toArray();
+          const sampleDocs = protectPii(redactDocuments(collection, await db.collection(collection).find(processedFilter).limit(3).toArray()));
           const smartWarning = getOperationWarning(deleteCount, 'delete');
 
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify({
+                text: formatJson({
                   dryRun: true,
                   operation: 'deleteMany',
                   collection,
                   wouldDelete: deleteCount,
                   sampleDocuments: sampleDocs,
                   message: smartWarning
-                }, null, 2),
+                }),
+              },
+            ],
+          };
+        }
+
+        if (!confirmationToken) {
+          return confirmationRequired('deleteMany', args, target, {
+            collection,
+            ...(await buildDeletePreview(db, collection, processedFilter, 3)),
+          });
+        }
+        // Checked first and consumed once the journal is captured, so a journal limit doesn't use up the token
+        const tokenError = checkConfirmationToken('deleteMany', args, target, confirmationToken);
+        if (tokenError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: tokenError,
               },
             ],
           };
         }
 
         // Actual execution
+        const journal = await captureJournal(db, collection, [processedFilter]);
+        const consumeError = consumeConfirmationToken('deleteMany', args, target, confirmationToken);
+        if (consumeError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: consumeError,
+              },
+            ],
+          };
+        }
         const result = await db.collection(collection).deleteMany(processedFilter);
+        recordAffectedDocuments({ deleted: result.deletedCount });
+        const journalNote = await commitJournal(db, journal, 'deleteMany');
 
         const smartWarning = getOperationWarning(result.deletedCount, 'delete');
 
@@ -743,7 +945,7 @@ Or increase maxDocuments limit if this is intentional`,
           content: [
             {
               type: 'text',
-              text: `${result.deletedCount} document(s) deleted.${smartWarning ? `\n${smartWarning}` : ''}`,
+              text: `${result.deletedCount} document(s) deleted.${smartWarning ? `\n${smartWarning}` : ''}${journalNote}`,
             },
           ],
         };
@@ -763,3 +965,37 @@ Or increase maxDocuments limit if this is intentional`,
     true
   );
 }
+
+async function buildUpdatePreview(db: Db, collection: string, processedFilter: MongoFilter, limit: number) {
+  const validation = validateFilter(processedFilter);
+
+  const matchCount = await db.collection(collection).countDocuments(processedFilter);
+  const sampleDocs = protectPii(redactDocuments(collection, await db.collection(collection).find(processedFilter).limit(limit).toArray()));
+
+  const smartWarning = getOperationWarning(matchCount, 'update');
+
+  return {
+    willAffect: matchCount,
+    sampleDocuments: sampleDocs,
+    samplesShown: sampleDocs.length,
+    message: smartWarning || (matchCount <= 10 ? `✓ Will update ${matchCount} document${matchCount !== 1 ? 's' : ''}` : undefined),
+    filterWarning: validation.warning,
+  };
+}
+
+async function buildDeletePreview(db: Db, collection: string, processedFilter: MongoFilter, limit: number) {
+  const validation = validateFilter(processedFilter);
+
+  const deleteCount = await db.collection(collection).countDocuments(processedFilter);
+  const sampleDocs = protectPii(redactDocuments(collection, await db.collection(collection).find(processedFilter).limit(limit).toArray()));
+
+  const smartWarning = getOperationWarning(deleteCount, 'delete');
+
+  return {
+    willDelete: deleteCount,
+    sampleDocuments: sampleDocs,
+    samplesShown: sampleDocs.length,
+    message: smartWarning || (deleteCount <= 10 ? `✓ Will delete ${deleteCount} document${deleteCount !== 1 ? 's' : ''}` : undefined),
+    filterWarning: validation.warning,
+  };
+}
@@ -1,15 +1,71 @@
-import type { Db } from 'mongodb';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
+import type { Db, Document, MongoClient } from 'mongodb';
 import { logToolUsage, logError } from '../utils/logger.js';
+import { createToolRegistrar } from './registrar.js';
+import type { ScoutSession } from '../server/connections.js';
+import { formatJson } from '../utils/ejson.js';
+import { parseDate } from '../utils/dates.js';
+import type { CurrentOpCommand, CurrentOpResult } from '../types.js';
+import { getCollectionAccessError } from '../utils/access-policy.js';
+import { checkAdminRateLimit, ADMIN_RATE_LIMIT } from '../utils/rate-limiter.js';
+import { sampleDocuments } from '../utils/schema-inference.js';
+import {
+  groupProfiledShapes,
+  groupQueryStatsShapes,
+  PROFILING_DISABLED,
+  readProfiledQueries,
+  type ShapeStats,
+} from '../utils/query-shapes.js';
+import {
+  classifyFilter,
+  compareWithIndexes,
+  estimateEntryBytes,
+  findDuplicateKeys,
+  findPrefixRedundant,
+  indexOptions,
+  inefficiencies,
+  isKeyPrefix,
+  proposeIndexKey,
+  type ExistingIndex,
+  type IndexKey,
+} from '../utils/index-advisor.js';
 
-export function registerIndexManagementTools(server: McpServer, db: Db, mode: string): void {
-  const registerTool = (toolName: string, description: string, schema: any, handler: (args?: any) => any, writeOperation = false) => {
-    if (writeOperation && mode === 'read-only') {
-      return;
-    }
-    server.tool(toolName, description, schema, handler);
-  };
+const MAX_AUDITED_COLLECTIONS = 200;
+// currentOp entries of index builds: the createIndexes command and, on 4.4+, the build thread
+const INDEX_BUILD_FILTER = [
+  { op: 'command', 'command.createIndexes': { $exists: true } },
+  { op: 'none', msg: { $regex: '^Index Build' } },
+];
+// Documents checked per TTL index for values the TTL monitor can't expire
+const TTL_CHECK_LIMIT = 1000;
+
+type IndexFindingKind = 'unused' | 'redundant' | 'duplicate' | 'ttlNotDate';
+
+interface IndexFinding {
+  collection: string;
+  index: string;
+  key: Document;
+  kind: IndexFindingKind;
+  detail: string;
+  reclaimableBytes?: number;
+  reclaimableSize?: string;
+  [extra: string]: unknown;
+}
+
+interface IndexUsage {
+  name: string;
+  accesses: { ops: number | { toNumber(): number }; since: Date };
+}
+
+interface IndexProposal {
+  collection: string;
+  key: IndexKey;
+  shapes: ShapeStats[];
+}
+
+export function registerIndexManagementTools(server: McpServer, session: ScoutSession): void {
+  const registerTool = createToolRegistrar(server, session);
 
   registerTool(
     'listIndexes',
@@ -17,7 +73,7 @@ export function registerIndexManagementTools(server: McpServer, db: Db, mode: st
     {
       collection: z.string(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('listIndexes', args);
       const { collection } = args;
       try {
@@ -26,7 +82,7 @@ export function registerIndexManagementTools(server: McpServer, db: Db, mode: st
           content: [
             {
               type: 'text',
-              text: JSON.stringify(indexes, null, 2),
+              text: formatJson(indexes),
             },
           ],
         };
@@ -60,9 +116,14 @@ export function registerIndexManagementTools(server: McpServer, db: Db, mode: st
         sparse: z.boolean().optional(),
         expireAfterSeconds: z.number().optional(),
         background: z.boolean().optional(),
+        hidden: z.boolean().optional().describe('Build the index hidden from the query planner; unhide it with unhideIndex'),
+        partialFilterExpression: z.record(z.any()).optional().describe('Only index documents matching this filter'),
+        collation: z.object({ locale: z.string() }).passthrough().optional().describe('Collation, e.g. { locale: "en", strength: 2 } for case-insensitive matching'),
+        wildcardProjection: z.record(z.number()).optional().describe('Fields to include (1) or exclude (0) in a { "$**": 1 } wildcard index'),
+        weights: z.record(z.number()).optional().describe('Relative weights of the fields of a text index'),
       }).optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('createIndex', args);
       const { collection, keys, options = {} } = args;
       try {
@@ -98,7 +159,7 @@ export function registerIndexManagementTools(server: McpServer, db: Db, mode: st
       collection: z.string(),
       indexName: z.string(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('dropIndex', args);
       const { collection, indexName } = args;
       try {
@@ -126,4 +187,490 @@ export function registerIndexManagementTools(server: McpServer, db: Db, mode: st
     },
     true
   );
+
+  registerTool(
+    'hideIndex',
+    'Hide an index from the query planner without dropping it. The index is still maintained on writes, so unhideIndex restores it instantly. Hide an index before dropping it to check that no query slows down.',
+    {
+      collection: z.string(),
+      indexName: z.string(),
+    },
+    async (args, { db }) => {
+      logToolUsage('hideIndex', args);
+      const { collection, indexName } = args;
+      try {
+        const result = await db.command({ collMod: collection, index: { name: indexName, hidden: true } });
+        const unchanged = result.hidden_old === undefined;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: unchanged
+                ? `Index '${indexName}' on collection '${collection}' was already hidden`
+                : `Index '${indexName}' hidden on collection '${collection}'`,
+            },
+          ],
+        };
+      } catch (error) {
+        logError('hideIndex', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error hiding index: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    },
+    true
+  );
+
+  registerTool(
+    'unhideIndex',
+    'Make a hidden index visible to the query planner again',
+    {
+      collection: z.string(),
+      indexName: z.string(),
+    },
+    async (args, { db }) => {
+      logToolUsage('unhideIndex', args);
+      const { collection, indexName } = args;
+      try {
+        const result = await db.command({ collMod: collection, index: { name: indexName, hidden: false } });
+        const unchanged = result.hidden_old === undefined;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: unchanged
+                ? `Index '${indexName}' on collection '${collection}' was already visible`
+                : `Index '${indexName}' unhidden on collection '${collection}'`,
+            },
+          ],
+        };
+      } catch (error) {
+        logError('unhideIndex', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error unhiding index: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    },
+    true
+  );
+
+  registerTool(
+    'indexBuildProgress',
+    'Show index builds in progress on the database, with their phase and how many documents or keys they have processed',
+    {
+      collection: z.string().optional(),
+    },
+    async (args, { db, dbName }) => {
+      logToolUsage('indexBuildProgress', args);
+      const { collection } = args;
+
+      if (!checkAdminRateLimit('indexBuildProgress')) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Rate limit exceeded for indexBuildProgress. Maximum ${ADMIN_RATE_LIMIT} requests per minute.`,
+            },
+          ],
+        };
+      }
+
+      try {
+        const command: CurrentOpCommand = { currentOp: true, $all: true, $or: INDEX_BUILD_FILTER };
+        const result = await db.admin().command(command) as CurrentOpResult;
+        const builds = (result.inprog || [])
+          .filter((op) => op.ns?.startsWith(`${dbName}.`))
+          .map((op) => ({ op, collection: op.ns.slice(dbName.length + 1) }))
+          .filter((build) => !collection || build.collection === collection)
+          .filter((build) => !getCollectionAccessError(build.collection, 'admin'))
+          .map(({ op, collection: buildCollection }) => ({
+            opid: op.opid,
+            collection: buildCollection,
+            indexes: indexNames(op.command?.indexes),
+            phase: op.msg,
+            progress: op.progress
+              ? {
+                  done: op.progress.done,
+                  total: op.progress.total,
+                  percent: op.progress.total > 0 ? parseFloat(((op.progress.done / op.progress.total) * 100).toFixed(1)) : undefined,
+                }
+              : undefined,
+            secsRunning: op.secs_running,
+            desc: op.desc,
+          }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatJson({
+                database: dbName,
+                builds,
+                message: builds.length === 0 ? 'No index builds in progress' : undefined,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        logError('indexBuildProgress', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error getting index build progress: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  registerTool(
+    'recommendIndexes',
+    'Recommend compound indexes from the queries the database actually runs. Reads system.profile (and $queryStats where available), groups queries by shape, finds COLLSCANs, in-memory SORTs and queries examining far more documents than they return, and proposes equality-sort-range indexes with the queries each helps, an estimated size and overlap with existing indexes.',
+    {
+      collection: z.string().optional().describe('Only recommend indexes for this collection'),
+      since: z.string().optional().describe('Only consider queries run at or after this date'),
+      limit: z.number().int().positive().max(10000).optional().describe('Profiler entries to read, newest first (default 1000)'),
+      includeQueryStats: z.boolean().optional().describe('Also read $queryStats (MongoDB 7.1+ / Atlas; default true)'),
+      sampleSize: z.number().int().positive().max(1000).optional().describe('Documents sampled per collection to estimate index sizes (default 100)'),
+      maxRecommendations: z.number().int().positive().optional(),
+    },
+    async (args, { client, db, dbName }) => {
+      logToolUsage('recommendIndexes', args);
+      const { collection, since, limit = 1000, includeQueryStats = true, sampleSize = 100, maxRecommendations = 10 } = args;
+      try {
+        const sinceDate = since ? parseDate(since, 'since') : undefined;
+
+        const sources: Record<string, unknown> = {};
+        let shapes: ShapeStats[] = [];
+
+        const entries = await readProfiledQueries(db, { collection, since: sinceDate, limit });
+        if (!entries) {
+          sources.profiler = PROFILING_DISABLED;
+        } else {
+          shapes = groupProfiledShapes(entries);
+          sources.profiler = { entries: entries.length, shapes: shapes.length };
+        }
+
+        if (includeQueryStats) {
+          try {
+            const queryStatsShapes = await readQueryStats(client, dbName, collection, sinceDate);
+            // The profiler knows the plans used, so its shapes win over the same shape from $queryStats
+            const known = new Set(shapes.map((shape) => shape.key));
+            const added = queryStatsShapes.filter((shape) => !known.has(shape.key));
+            shapes.push(...added);
+            sources.queryStats = { shapes: queryStatsShapes.length, added: added.length };
+          } catch (error) {
+            sources.queryStats = `Unavailable: ${error instanceof Error ? error.message : String(error)}`;
+          }
+        }
+
+        // Index metadata counts as admin access, like listIndexes
+        shapes = shapes.filter((shape) => !getCollectionAccessError(shape.collection, 'admin'));
+
+        const proposals: IndexProposal[] = [];
+        const notIndexable: unknown[] = [];
+        for (const shape of shapes) {
+          const reasons = inefficiencies(shape);
+          if (reasons.length === 0) continue;
+          const key = proposeIndexKey(shape);
+          if (!key) {
+            notIndexable.push({ ...describeShape(shape), reasons, unsupported: classifyFilter(shape.filter).unsupported });
+            continue;
+          }
+          proposals.push({ collection: shape.collection, key, shapes: [shape] });
+        }
+
+        const recommendations: unknown[] = [];
+        const alreadyIndexed: unknown[] = [];
+        for (const proposal of mergeProposals(proposals)) {
+          if (recommendations.length >= maxRecommendations) break;
+
+          const indexes = (await db.collection(proposal.collection).listIndexes().toArray()) as ExistingIndex[];
+          const overlap = compareWithIndexes(proposal.key, indexes);
+          const helps = proposal.shapes.map((shape) => ({ ...describeShape(shape), reasons: inefficiencies(shape) }));
+          if (overlap.coveredBy) {
+            alreadyIndexed.push({
+              collection: proposal.collection,
+              key: proposal.key,
+              coveredBy: overlap.coveredBy,
+              note: 'A matching index exists but these queries did not use it. Check the plan with explainQuery, or whether the index was built after they ran.',
+              queries: helps,
+            });
+            continue;
+          }
+
+          recommendations.push({
+            collection: proposal.collection,
+            key: proposal.key,
+            createIndex: { collection: proposal.collection, keys: proposal.key },
+            totalMillis: Math.round(proposal.shapes.reduce((sum, shape) => sum + shape.totalMillis, 0)),
+            ...(await estimateIndexSize(db, proposal, sampleSize)),
+            helps,
+            existingIndexes: {
+              replaces: overlap.replaces,
+              overlapsWith: overlap.overlapsWith,
+            },
+          });
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatJson({
+                database: dbName,
+                sources,
+                shapesAnalyzed: shapes.length,
+                recommendations,
+                alreadyIndexed: alreadyIndexed.length > 0 ? alreadyIndexed : undefined,
+                notIndexable: notIndexable.length > 0 ? notIndexable : undefined,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        logError('recommendIndexes', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error recommending indexes: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  registerTool(
+    'auditIndexes',
+    'Audit the indexes of every collection in the database. Flags indexes with no or almost no accesses in $indexStats, indexes made redundant by a longer index with the same prefix, duplicate key patterns with different options, and TTL indexes on fields that do not hold dates. Each finding shows the index size that dropping it would reclaim.',
+    {
+      since: z.string().optional().describe('Usage window start; indexes whose access counters started later (restart or new index) are marked as having incomplete history'),
+      maxAccesses: z.number().int().min(0).optional().describe('Accesses at or below which an index counts as unused (default 0)'),
+      collections: z.array(z.string()).optional().describe('Only audit these collections'),
+    },
+    async (args, { db, dbName }) => {
+      logToolUsage('auditIndexes', args);
+      const { since, maxAccesses = 0, collections } = args;
+      try {
+        const sinceDate = since ? parseDate(since, 'since') : undefined;
+
+        const names = (await db.listCollections({ type: 'collection' }, { nameOnly: true }).toArray())
+          .map((collection) => collection.name)
+          .filter((name) => !name.startsWith('system.') && (!collections || collections.includes(name)))
+          // Index metadata counts as admin access, like listIndexes
+          .filter((name) => !getCollectionAccessError(name, 'admin'))
+          .sort();
+        const audited = names.slice(0, MAX_AUDITED_COLLECTIONS);
+
+        const findings: IndexFinding[] = [];
+        for (const collection of audited) {
+          findings.push(...(await auditCollectionIndexes(db, collection, sinceDate, maxAccesses)));
+        }
+
+        // An index flagged for several reasons is only reclaimed once
+        const reclaimable = new Map(findings.map((finding) => [`${finding.collection}.${finding.index}`, finding.reclaimableBytes ?? 0]));
+        const totalReclaimableBytes = [...reclaimable.values()].reduce((sum, bytes) => sum + bytes, 0);
+        const summary = Object.fromEntries(
+          (['unused', 'redundant', 'duplicate', 'ttlNotDate'] as const).map((kind) => [kind, findings.filter((finding) => finding.kind === kind).length])
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatJson({
+                database: dbName,
+                collectionsAudited: audited.length,
+                collectionsNotAudited: names.length > audited.length ? names.length - audited.length : undefined,
+                summary,
+                totalReclaimableBytes,
+                totalReclaimableSize: formatBytes(totalReclaimableBytes),
+                findings,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        logError('auditIndexes', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error auditing indexes: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
+
+async function auditCollectionIndexes(db: Db, collection: string, since: Date | undefined, maxAccesses: number): Promise<IndexFinding[]> {
+  const coll = db.collection(collection);
+  const indexes = (await coll.listIndexes().toArray()) as ExistingIndex[];
+  const stats = await db.command({ collStats: collection });
+  const indexSizes = (stats.indexSizes ?? {}) as Record<string, number>;
+  let usage: IndexUsage[] = [];
+  try {
+    usage = (await coll.aggregate([{ $indexStats: {} }]).toArray()) as IndexUsage[];
+  } catch {
+    // $indexStats might not be available; usage is then not audited
+  }
+
+  const findings: IndexFinding[] = [];
+  const finding = (index: ExistingIndex, kind: IndexFindingKind, detail: string, extra: Record<string, unknown> = {}): IndexFinding => {
+    const bytes = indexSizes[index.name];
+    return {
+      collection,
+      index: index.name,
+      key: index.key,
+      kind,
+      detail,
+      ...extra,
+      reclaimableBytes: bytes,
+      reclaimableSize: bytes !== undefined ? formatBytes(bytes) : undefined,
+    };
+  };
+
+  for (const index of indexes) {
+    const stat = usage.find((entry) => entry.name === index.name);
+    if (!stat || index.name === '_id_') continue;
+    const ops = typeof stat.accesses.ops === 'number' ? stat.accesses.ops : stat.accesses.ops.toNumber();
+    if (ops > maxAccesses) continue;
+
+    const notes: string[] = [];
+    if (index.unique) notes.push('enforces uniqueness; dropping it removes the constraint');
+    if (index.expireAfterSeconds !== undefined) notes.push('TTL index; it deletes expired documents even when no query uses it');
+    if (index.hidden) notes.push('hidden from the query planner, so no query can use it');
+    findings.push(
+      finding(index, 'unused', `${ops} accesses since ${stat.accesses.since.toISOString()}`, {
+        accesses: ops,
+        countingSince: stat.accesses.since,
+        incompleteHistory: since && stat.accesses.since > since ? true : undefined,
+        notes: notes.length > 0 ? notes : undefined,
+      })
+    );
+  }
+
+  for (const { index, coveredBy } of findPrefixRedundant(indexes)) {
+    findings.push(finding(index, 'redundant', `Its key is a prefix of '${coveredBy.name}', which serves the same queries`, { coveredBy: coveredBy.name }));
+  }
+
+  for (const { indexes: duplicates, differingOptions } of findDuplicateKeys(indexes)) {
+    for (const index of duplicates.slice(1)) {
+      findings.push(
+        finding(index, 'duplicate', `Same key as '${duplicates[0].name}', differing only in ${differingOptions.join(', ') || 'name'}`, {
+          duplicateOf: duplicates[0].name,
+          options: indexOptions(index),
+          duplicateOptions: indexOptions(duplicates[0]),
+        })
+      );
+    }
+  }
+
+  for (const index of indexes) {
+    if (index.expireAfterSeconds === undefined) continue;
+    const fields = Object.keys(index.key);
+    if (fields.length > 1) {
+      findings.push(finding(index, 'ttlNotDate', 'TTL is ignored on compound indexes, so no documents expire'));
+      continue;
+    }
+    // Arrays count as dates when they hold one; the TTL monitor uses the earliest
+    const notDates = await coll.countDocuments({ [fields[0]]: { $exists: true, $not: { $type: 'date' } } }, { limit: TTL_CHECK_LIMIT });
+    if (notDates > 0) {
+      findings.push(
+        finding(index, 'ttlNotDate', `${notDates >= TTL_CHECK_LIMIT ? `At least ${TTL_CHECK_LIMIT}` : notDates} documents hold a non-date '${fields[0]}' and never expire`, {
+          documentsNotExpiring: notDates,
+        })
+      );
+    }
+  }
+
+  return findings;
+}
+
+async function readQueryStats(client: MongoClient, database: string, collection?: string, since?: Date): Promise<ShapeStats[]> {
+  const match: Document = { 'key.queryShape.cmdNs.db': database };
+  if (collection) match['key.queryShape.cmdNs.coll'] = collection;
+  if (since) match['metrics.latestSeenTimestamp'] = { $gte: since };
+  const entries = await client.db('admin').aggregate([{ $queryStats: {} }, { $match: match }]).toArray();
+  return groupQueryStatsShapes(entries, database);
+}
+
+/**
+ * Folds proposals whose key is a prefix of a longer proposal on the same
+ * collection into it, since the longer index serves both. Proposals are
+ * returned by the total time of the queries they help, highest first.
+ */
+function mergeProposals(proposals: IndexProposal[]): IndexProposal[] {
+  const merged: IndexProposal[] = [];
+  const byLength = [...proposals].sort((a, b) => Object.keys(b.key).length - Object.keys(a.key).length);
+  for (const proposal of byLength) {
+    const target = merged.find((candidate) => candidate.collection === proposal.collection && isKeyPrefix(proposal.key, candidate.key));
+    if (target) {
+      target.shapes.push(...proposal.shapes);
+    } else {
+      merged.push({ ...proposal, shapes: [...proposal.shapes] });
+    }
+  }
+  const totalMillis = (proposal: IndexProposal) => proposal.shapes.reduce((sum, shape) => sum + shape.totalMillis, 0);
+  return merged.sort((a, b) => totalMillis(b) - totalMillis(a));
+}
+
+async function estimateIndexSize(db: Db, proposal: IndexProposal, sampleSize: number) {
+  const documents = await db.collection(proposal.collection).estimatedDocumentCount();
+  const sample = documents > 0 ? await sampleDocuments(db, proposal.collection, sampleSize) : [];
+  const bytes = Math.round(documents * estimateEntryBytes(sample, proposal.key));
+  return {
+    estimatedSizeBytes: bytes,
+    estimatedSize: formatBytes(bytes),
+    sizeNote: 'Uncompressed estimate from sampled documents; prefix compression usually makes the index smaller.',
+  };
+}
+
+function describeShape(shape: ShapeStats) {
+  return {
+    collection: shape.collection,
+    operation: shape.operation,
+    filter: shape.filter,
+    sort: shape.sort,
+    runs: shape.count,
+    avgMillis: shape.count > 0 ? Math.round(shape.totalMillis / shape.count) : 0,
+    planSummaries: shape.planSummaries.length > 0 ? shape.planSummaries : undefined,
+  };
+}
+
+function indexNames(indexes: unknown): string[] | undefined {
+  if (!Array.isArray(indexes)) return undefined;
+  return indexes.map((index) => (index && typeof index === 'object' && 'name' in index ? String(index.name) : String(index)));
+}
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
 }
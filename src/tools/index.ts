@@ -1,29 +1,37 @@
-import type { Db, MongoClient } from 'mongodb';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ScoutSession } from '../server/connections.js';
+import { registerConnectionTools } from './connection.js';
 import { registerDatabaseTools } from './database.js';
 import { registerCollectionTools } from './collection.js';
 import { registerDocumentTools } from './document.js';
+import { registerCursorTools } from './cursor.js';
 import { registerSchemaTools } from './schema.js';
+import { registerSchemaDriftTools } from './schema-drift.js';
 import { registerMonitoringTools } from './monitoring.js';
 import { registerLiveMonitoringTools } from './live-monitoring.js';
+import { registerAlertTools } from './alerts.js';
 import { registerIndexManagementTools } from './index-management.js';
 import { registerAdvancedOperations } from './advanced-operations.js';
 import { registerDataQualityTools } from './data-quality.js';
+import { registerPrivacyTools } from './privacy.js';
+import { registerJournalTools } from './journal.js';
+import { registerTransactionTools } from './transaction.js';
 
-export function registerAllTools(
-  server: McpServer,
-  client: MongoClient,
-  db: Db,
-  dbName: string,
-  mode: string
-): void {
-  registerDatabaseTools(server, client, mode);
-  registerCollectionTools(server, db, mode);
-  registerDocumentTools(server, db, mode);
-  registerSchemaTools(server, db);
-  registerIndexManagementTools(server, db, mode);
-  registerAdvancedOperations(server, db, mode);
-  registerDataQualityTools(server, db, mode);
-  registerMonitoringTools(server, client, db, dbName, mode);
-  registerLiveMonitoringTools(server, db, mode);
+export function registerAllTools(server: McpServer, session: ScoutSession): void {
+  registerConnectionTools(server, session);
+  registerDatabaseTools(server, session);
+  registerCollectionTools(server, session);
+  registerDocumentTools(server, session);
+  registerCursorTools(server, session);
+  registerSchemaTools(server, session);
+  registerSchemaDriftTools(server, session);
+  registerIndexManagementTools(server, session);
+  registerAdvancedOperations(server, session);
+  registerDataQualityTools(server, session);
+  registerPrivacyTools(server, session);
+  registerJournalTools(server, session);
+  registerTransactionTools(server, session);
+  registerMonitoringTools(server, session);
+  registerLiveMonitoringTools(server, session);
+  registerAlertTools(server, session);
 }
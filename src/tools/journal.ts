@@ -0,0 +1,113 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { logToolUsage, logError } from '../utils/logger.js';
+import { createToolRegistrar } from './registrar.js';
+import type { ScoutSession } from '../server/connections.js';
+import { getJournalEntry, listJournal, undoJournalEntry } from '../utils/journal.js';
+import { isCollectionAllowed } from '../utils/limits.js';
+import { isOperationAllowed } from '../utils/access-policy.js';
+import { recordAffectedDocuments } from '../utils/audit-log.js';
+import { formatJson } from '../utils/ejson.js';
+
+export function registerJournalTools(server: McpServer, session: ScoutSession): void {
+  const registerTool = createToolRegistrar(server, session);
+
+  registerTool(
+    'listJournal',
+    'List recent write operations recorded in the undo journal of the current database, newest first',
+    {
+      collection: z.string().optional(),
+      limit: z.number().int().positive().max(200).optional(),
+    },
+    async (args, { db }) => {
+      logToolUsage('listJournal', args);
+      const { collection, limit = 20 } = args;
+      try {
+        const entries = await listJournal(db, { collection, limit });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: entries.length > 0
+                ? formatJson(entries)
+                : 'The undo journal is empty.',
+            },
+          ],
+        };
+      } catch (error) {
+        logError('listJournal', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error listing journal: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  registerTool(
+    'undoOperation',
+    'Revert a journaled write: restore the documents it changed or deleted and remove the documents it inserted. Later operations on the same collection must be undone first unless force is set.',
+    {
+      id: z.string(),
+      force: z.boolean().optional(),
+    },
+    async (args, { db }) => {
+      logToolUsage('undoOperation', args);
+      const { id, force = false } = args;
+      try {
+        const entry = await getJournalEntry(db, id);
+        if (!entry) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Journal entry '${id}' not found in database '${db.databaseName}'. It may have been evicted from the capped journal.`,
+              },
+            ],
+          };
+        }
+
+        // The registrar only saw the journal id, so check the restored collection here
+        if (!isCollectionAllowed(entry.collection) || !isOperationAllowed(entry.collection, 'write')) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Access denied: write access to collection '${entry.collection}' is not permitted.`,
+              },
+            ],
+          };
+        }
+
+        const result = await undoJournalEntry(db, entry, force);
+        recordAffectedDocuments({ modified: result.restored, deleted: result.removed });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Undid ${entry.tool} on '${entry.collection}': restored ${result.restored} document(s), removed ${result.removed} created document(s).`,
+            },
+          ],
+        };
+      } catch (error) {
+        logError('undoOperation', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error undoing operation: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    },
+    true
+  );
+}
@@ -1,7 +1,8 @@
-import type { Db } from 'mongodb';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { logToolUsage, logError } from '../utils/logger.js';
+import { createToolRegistrar } from './registrar.js';
+import type { ScoutSession } from '../server/connections.js';
 import { checkAdminRateLimit, ADMIN_RATE_LIMIT } from '../utils/rate-limiter.js';
 import { sanitizeResponse } from '../utils/sanitize.js';
 import type {
@@ -17,14 +18,23 @@ import type {
   CurrentOpResult
 } from '../types.js';
 import { filterSlowOperation } from '../utils/response-filter.js';
-
-export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: string): void {
-  const registerTool = (toolName: string, description: string, schema: any, handler: (args?: any) => any, writeOperation = false) => {
-    if (writeOperation && mode === 'read-only') {
-      return;
-    }
-    server.tool(toolName, description, schema, handler);
-  };
+import { formatJson } from '../utils/ejson.js';
+import { parseDate } from '../utils/dates.js';
+import {
+  buildLiveMetric,
+  downsampleMetrics,
+  getRecordedMetrics,
+  getRecordingStatus,
+  HISTORY_FIELD_NAMES,
+  MAX_RECORDING_SAMPLES,
+  MIN_RECORDING_INTERVAL_SECONDS,
+  startRecording,
+  stopRecording,
+} from '../utils/metrics-recorder.js';
+import { listAlertRules } from '../utils/alerts.js';
+
+export function registerLiveMonitoringTools(server: McpServer, session: ScoutSession): void {
+  const registerTool = createToolRegistrar(server, session);
 
   registerTool(
     'getLiveMetrics',
@@ -34,7 +44,7 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
       interval: z.number().positive().optional(),
       includeRawSamples: z.boolean().optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('getLiveMetrics', args);
       const { duration = 60000, interval = 1000, includeRawSamples = false } = args;
 
@@ -59,40 +69,7 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
           await new Promise(resolve => setTimeout(resolve, interval));
 
           const currentStatus = await db.admin().command({ serverStatus: 1 }) as ServerStatus;
-
-          const currentOps = currentStatus.opcounters!;
-          const prevOps = previousStatus.opcounters!;
-          const opsPerSec = {
-            insert: (currentOps.insert - prevOps.insert) / (interval / 1000),
-            query: (currentOps.query - prevOps.query) / (interval / 1000),
-            update: (currentOps.update - prevOps.update) / (interval / 1000),
-            delete: (currentOps.delete - prevOps.delete) / (interval / 1000),
-            command: (currentOps.command - prevOps.command) / (interval / 1000),
-            getmore: (currentOps.getmore - prevOps.getmore) / (interval / 1000)
-          };
-
-          const currentNet = currentStatus.network!;
-          const prevNet = previousStatus.network!;
-          const networkRates = {
-            bytesInPerSec: (currentNet.bytesIn - prevNet.bytesIn) / (interval / 1000),
-            bytesOutPerSec: (currentNet.bytesOut - prevNet.bytesOut) / (interval / 1000),
-            requestsPerSec: (currentNet.numRequests - prevNet.numRequests) / (interval / 1000)
-          };
-
-          metrics.push({
-            timestamp: new Date().toISOString(),
-            operations: {
-              counters: currentOps,
-              ratesPerSecond: opsPerSec
-            },
-            connections: currentStatus.connections!,
-            network: {
-              totals: currentNet,
-              ratesPerSecond: networkRates
-            },
-            memory: currentStatus.mem!,
-            globalLock: currentStatus.globalLock!
-          });
+          metrics.push(buildLiveMetric(currentStatus, previousStatus, interval / 1000));
 
           previousStatus = currentStatus;
         }
@@ -124,7 +101,7 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
           content: [
             {
               type: 'text',
-              text: JSON.stringify(response, null, 2),
+              text: formatJson(response),
             },
           ],
         };
@@ -150,7 +127,7 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
       limit: z.number().positive().optional(),
       sampleDuration: z.number().positive().optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('getHottestCollections', args);
       const { limit = 10, sampleDuration = 5000 } = args;
 
@@ -241,11 +218,11 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
           content: [
             {
               type: 'text',
-              text: JSON.stringify({
+              text: formatJson({
                 sampleDuration,
                 totalOperations: totalOps,
                 collections: hottest
-              }, null, 2),
+              }),
             },
           ],
         };
@@ -271,7 +248,7 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
       collection: z.string(),
       includeWiredTiger: z.boolean().optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('getCollectionMetrics', args);
       const { collection, includeWiredTiger = false } = args;
 
@@ -399,7 +376,7 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
           content: [
             {
               type: 'text',
-              text: JSON.stringify(metrics, null, 2),
+              text: formatJson(metrics),
             },
           ],
         };
@@ -427,7 +404,7 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
       includeRunning: z.boolean().optional(),
       includeQueryDetails: z.boolean().optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('getSlowestOperations', args);
       const { minDuration = 100, limit = 10, includeRunning = true, includeQueryDetails = false } = args;
 
@@ -556,11 +533,11 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
           content: [
             {
               type: 'text',
-              text: JSON.stringify({
+              text: formatJson({
                 summary,
                 profilingStatus: result.profilingStatus,
                 operations: filteredOperations
-              }, null, 2),
+              }),
             },
           ],
         };
@@ -578,4 +555,139 @@ export function registerLiveMonitoringTools(server: McpServer, db: Db, mode: str
       }
     }
   );
+
+  registerTool(
+    'startRecording',
+    'Start recording serverStatus metrics in the background at a fixed interval, so getMetricsHistory can answer questions about past windows without waiting. Restarts recording with new options if it is already running.',
+    {
+      intervalSeconds: z
+        .number()
+        .min(MIN_RECORDING_INTERVAL_SECONDS)
+        .optional()
+        .describe('Seconds between samples (default from config, 10)'),
+      maxSamples: z
+        .number()
+        .int()
+        .positive()
+        .max(MAX_RECORDING_SAMPLES)
+        .optional()
+        .describe('Samples kept; older ones are dropped (default from config, 4320)'),
+      persist: z.boolean().optional().describe('Append samples to the configured metrics file (default true when a file is configured)'),
+    },
+    async (args, { connection }) => {
+      logToolUsage('startRecording', args);
+      try {
+        const status = await startRecording(connection, () => session.registry.getClient(connection), args);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatJson(status),
+            },
+          ],
+        };
+      } catch (error) {
+        logError('startRecording', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error starting recording: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    },
+    true
+  );
+
+  registerTool(
+    'stopRecording',
+    'Stop recording metrics in the background. Recorded samples stay available to getMetricsHistory. Refused while alert rules watch the connection.',
+    {},
+    async (args, { connection }) => {
+      logToolUsage('stopRecording', args);
+      // Rules only see new samples while recording; stopping would leave them stuck in their last state
+      const rules = listAlertRules(connection);
+      if (rules.length > 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Alert rules ${rules.map((rule) => `'${rule.name}'`).join(', ')} watch connection '${connection}'. Remove them with setAlertRule (remove: true) before stopping the recording.`,
+            },
+          ],
+        };
+      }
+
+      const status = stopRecording(connection);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: status ? formatJson(status) : `Metrics are not being recorded for connection '${connection}'`,
+          },
+        ],
+      };
+    },
+    true
+  );
+
+  registerTool(
+    'getMetricsHistory',
+    'Query metrics recorded in the background (see startRecording) for a time window, averaged into at most maxPoints points, with the minimum, average and maximum of each metric over the window',
+    {
+      lastMinutes: z.number().positive().optional().describe('Window ending now; ignored when since is given'),
+      since: z.string().optional(),
+      until: z.string().optional(),
+      maxPoints: z.number().int().positive().max(500).optional().describe('Points after downsampling (default 60)'),
+      fields: z.array(z.enum(HISTORY_FIELD_NAMES as [string, ...string[]])).optional().describe('Metrics to include (default all)'),
+    },
+    async (args, { connection }) => {
+      logToolUsage('getMetricsHistory', args);
+      const { lastMinutes, since, until, maxPoints = 60, fields } = args;
+      try {
+        const status = getRecordingStatus(connection);
+        if (!status) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No metrics recorded for connection '${connection}'. Use startRecording to record them in the background.`,
+              },
+            ],
+          };
+        }
+
+        const from = since ? parseDate(since, 'since') : lastMinutes ? new Date(Date.now() - lastMinutes * 60 * 1000) : undefined;
+        const to = until ? parseDate(until, 'until') : undefined;
+        const samples = getRecordedMetrics(connection, from, to);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatJson({
+                recording: status,
+                window: { from: from?.toISOString() ?? status.oldest, to: to?.toISOString() ?? status.newest },
+                samples: samples.length,
+                ...downsampleMetrics(samples, maxPoints, fields),
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        logError('getMetricsHistory', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error getting metrics history: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
 }
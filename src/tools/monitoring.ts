@@ -1,19 +1,29 @@
-import type { Db, MongoClient } from 'mongodb';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { logToolUsage, logError } from '../utils/logger.js';
+import { createToolRegistrar } from './registrar.js';
+import type { ScoutSession } from '../server/connections.js';
 import { checkAdminRateLimit, ADMIN_RATE_LIMIT } from '../utils/rate-limiter.js';
 import { sanitizeResponse } from '../utils/sanitize.js';
 import type { CurrentOpCommand, CurrentOpResult, ServerStatus, VerbosityLevel } from '../types.js';
 import { filterServerStatus, filterDatabaseStats, filterProfilerEntry, excludeZeroMetrics } from '../utils/response-filter.js';
-
-export function registerMonitoringTools(server: McpServer, client: MongoClient, db: Db, dbName: string, mode: string): void {
-  const registerTool = (toolName: string, description: string, schema: any, handler: (args?: any) => any, writeOperation = false) => {
-    if (writeOperation && mode === 'read-only') {
-      return;
-    }
-    server.tool(toolName, description, schema, handler);
-  };
+import { formatJson } from '../utils/ejson.js';
+import { parseDate } from '../utils/dates.js';
+import type { Document } from 'mongodb';
+import type { BaselineShape, QueryBaseline } from '../types.js';
+import { getCollectionAccessError } from '../utils/access-policy.js';
+import { publishCollectionChanges } from '../utils/resource-events.js';
+import {
+  groupProfiledShapes,
+  percentile,
+  PROFILING_DISABLED,
+  readProfiledQueries,
+  type ShapeStats,
+} from '../utils/query-shapes.js';
+import { listQueryBaselines, loadQueryBaseline, saveQueryBaseline, validateBaselineName } from '../utils/query-baselines.js';
+
+export function registerMonitoringTools(server: McpServer, session: ScoutSession): void {
+  const registerTool = createToolRegistrar(server, session);
 
   registerTool(
     'getServerStatus',
@@ -26,7 +36,7 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
       includeStorageEngine: z.boolean().optional(),
       excludeZeroMetrics: z.boolean().optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('getServerStatus', args);
       const {
         includeHost = false,
@@ -103,7 +113,7 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
           content: [
             {
               type: 'text',
-              text: JSON.stringify(sanitizedStatus, null, 2),
+              text: formatJson(sanitizedStatus),
             },
           ],
         };
@@ -132,7 +142,7 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
       verbosity: z.enum(['summary', 'standard', 'full']).optional(),
       excludeZeroMetrics: z.boolean().optional(),
     },
-    async (args) => {
+    async (args, { client, dbName }) => {
       logToolUsage('getDatabaseStats', args);
       const {
         database = dbName,
@@ -165,7 +175,7 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
           content: [
             {
               type: 'text',
-              text: JSON.stringify(filtered, null, 2),
+              text: formatJson(filtered),
             },
           ],
         };
@@ -192,7 +202,7 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
       database: z.string().optional(),
       timeout: z.number().positive().optional(),
     },
-    async (args) => {
+    async (args, { client, connection }) => {
       logToolUsage('runAdminCommand', args);
       const { command, database = 'admin', timeout = 30000 } = args;
 
@@ -233,14 +243,17 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
       try {
         const targetDb = client.db(database);
         const commandWithTimeout = { ...command, maxTimeMS: safeTimeout };
-        const result = await targetDb.admin().command(commandWithTimeout);
+        // Admin commands run against the admin database; publish collections they create or drop there
+        const result = await publishCollectionChanges({ connection, db: client.db('admin'), dbName: 'admin' }, () =>
+          targetDb.admin().command(commandWithTimeout)
+        );
         const sanitizedResult = sanitizeResponse(result);
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(sanitizedResult, null, 2),
+              text: formatJson(sanitizedResult),
             },
           ],
         };
@@ -263,7 +276,7 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
     'getConnectionPoolStats',
     'Get connection pool statistics and monitoring metrics',
     {},
-    async () => {
+    async (_args, { db }) => {
       logToolUsage('getConnectionPoolStats', {});
       try {
         const serverStatus = await db.admin().command({ serverStatus: 1 });
@@ -287,7 +300,7 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
           content: [
             {
               type: 'text',
-              text: JSON.stringify(poolStats, null, 2),
+              text: formatJson(poolStats),
             },
           ],
         };
@@ -317,7 +330,7 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
       truncateOps: z.boolean().optional(),
       excludeSensitiveData: z.boolean().optional(),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('getCurrentOperations', args);
       const {
         allUsers = true,
@@ -392,7 +405,7 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
           content: [
             {
               type: 'text',
-              text: JSON.stringify(response, null, 2),
+              text: formatJson(response),
             },
           ],
         };
@@ -421,7 +434,7 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
       filter: z.record(z.any()).optional(),
       verbosity: z.enum(['summary', 'standard', 'full']).optional(),
     },
-    async (args) => {
+    async (args, { client, dbName }) => {
       logToolUsage('getProfilerStats', args);
       const {
         database = dbName,
@@ -440,10 +453,10 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
             content: [
               {
                 type: 'text',
-                text: JSON.stringify({
+                text: formatJson({
                   message: 'Database profiling is disabled. Enable profiling to collect performance data.',
                   profileStatus: profileStatus
-                }, null, 2),
+                }),
               },
             ],
           };
@@ -465,11 +478,11 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
           content: [
             {
               type: 'text',
-              text: JSON.stringify({
+              text: formatJson({
                 profileStatus: profileStatus,
                 entries: filteredEntries,
                 count: filteredEntries.length
-              }, null, 2),
+              }),
             },
           ],
         };
@@ -487,4 +500,207 @@ export function registerMonitoringTools(server: McpServer, client: MongoClient,
       }
     }
   );
+
+  registerTool(
+    'getQueryShapes',
+    'Group profiled and currently running operations by query shape (filter and sort with values replaced by "?"). Reports per shape the run count, p50/p95/p99 latency, documents examined per document returned and plan summaries. Save the result as a named baseline and compare later runs against it to flag shapes whose latency or plan regressed.',
+    {
+      collection: z.string().optional(),
+      since: z.string().optional().describe('Only profiler entries at or after this date'),
+      limit: z.number().int().positive().max(10000).optional().describe('Profiler entries to read, newest first (default 1000)'),
+      includeCurrentOps: z.boolean().optional().describe('Also group operations running now (default true)'),
+      maxShapes: z.number().int().positive().optional().describe('Shapes to return, by total time (default 25)'),
+      saveBaseline: z.string().optional().describe('Save all shapes of this run as a baseline with this name, replacing one with the same name'),
+      compareTo: z.string().optional().describe('Name of a saved baseline to flag regressions against'),
+      regressionThreshold: z.number().positive().optional().describe('p95 latency increase, in percent, that counts as a regression (default 50)'),
+    },
+    async (args, { db, dbName, connection }) => {
+      logToolUsage('getQueryShapes', args);
+      const {
+        collection,
+        since,
+        limit = 1000,
+        includeCurrentOps = true,
+        maxShapes = 25,
+        saveBaseline,
+        compareTo,
+        regressionThreshold = 50,
+      } = args;
+
+      if (!checkAdminRateLimit('getQueryShapes')) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Rate limit exceeded for getQueryShapes. Maximum ${ADMIN_RATE_LIMIT} requests per minute.`,
+            },
+          ],
+        };
+      }
+
+      try {
+        const sinceDate = since ? parseDate(since, 'since') : undefined;
+        // Fail before reading anything when a baseline name is wrong
+        if (saveBaseline) validateBaselineName(saveBaseline);
+        const baseline = compareTo ? await loadQueryBaseline(compareTo) : undefined;
+        if (compareTo && !baseline) {
+          const names = await listQueryBaselines();
+          throw new Error(`Baseline '${compareTo}' not found. Saved baselines: ${names.length > 0 ? names.join(', ') : 'none'}`);
+        }
+        // Shape keys carry no database, so a baseline only compares with the run it was taken from
+        if (baseline && (baseline.database !== dbName || baseline.connection !== connection)) {
+          throw new Error(
+            `Baseline '${compareTo}' was taken on database '${baseline.database}' of connection '${baseline.connection}', not '${dbName}' of '${connection}'. Pass database/connection to compare against it.`
+          );
+        }
+
+        const sources: Record<string, unknown> = {};
+        const entries = await readProfiledQueries(db, { collection, since: sinceDate, limit });
+        const profiled = entries ? groupProfiledShapes(entries) : [];
+        sources.profiler = entries ? { entries: entries.length } : PROFILING_DISABLED;
+
+        let running: ShapeStats[] = [];
+        if (includeCurrentOps) {
+          try {
+            const result = await db.admin().command({ currentOp: true, $all: true, active: true }) as CurrentOpResult;
+            const ops = (result.inprog || [])
+              .filter((op) => op.ns === `${dbName}.${collection}` || (!collection && op.ns?.startsWith(`${dbName}.`)))
+              .map((op) => ({ ...op, millis: op.microsecs_running / 1000 }));
+            running = groupProfiledShapes(ops);
+            sources.currentOp = { operations: ops.length };
+          } catch (error) {
+            // e.g. the user lacks the inprog privilege; the profiler shapes are still worth returning
+            sources.currentOp = `Unavailable: ${error instanceof Error ? error.message : String(error)}`;
+          }
+        }
+
+        const shapes = mergeRunningShapes(profiled, running).filter((shape) => !getCollectionAccessError(shape.collection, 'read'));
+        const summaries = shapes.map(toBaselineShape);
+
+        let saved: QueryBaseline | undefined;
+        if (saveBaseline) {
+          saved = await saveQueryBaseline({ name: saveBaseline, connection, database: dbName, shapes: summaries });
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatJson({
+                database: dbName,
+                sources,
+                totalShapes: shapes.length,
+                shapes: shapes.slice(0, maxShapes).map((shape, i) => ({
+                  ...summaries[i],
+                  key: undefined,
+                  running: shape.running || undefined,
+                  totalMillis: Math.round(shape.totalMillis),
+                  maxMillis: shape.maxMillis,
+                  lastSeen: shape.lastSeen,
+                })),
+                savedBaseline: saved ? { name: saved.name, createdAt: saved.createdAt, shapes: saved.shapes.length } : undefined,
+                comparison: baseline ? compareWithBaseline(summaries, baseline, regressionThreshold) : undefined,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        logError('getQueryShapes', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error getting query shapes: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
+
+type RunningShape = ShapeStats & { running: number };
+
+/**
+ * Adds operations still running to the profiled shapes. Their elapsed time
+ * isn't a latency yet, so they only count towards `running` and plans.
+ */
+function mergeRunningShapes(profiled: ShapeStats[], running: ShapeStats[]): RunningShape[] {
+  const shapes = new Map<string, RunningShape>(profiled.map((shape) => [shape.key, { ...shape, running: 0 }]));
+  for (const shape of running) {
+    const existing = shapes.get(shape.key);
+    if (existing) {
+      existing.running += shape.count;
+      existing.planSummaries.push(...shape.planSummaries.filter((plan) => !existing.planSummaries.includes(plan)));
+    } else {
+      shapes.set(shape.key, { ...shape, count: 0, totalMillis: 0, latencies: [], running: shape.count });
+    }
+  }
+  return [...shapes.values()];
+}
+
+function toBaselineShape(shape: ShapeStats): BaselineShape {
+  return {
+    key: shape.key,
+    collection: shape.collection,
+    operation: shape.operation,
+    filter: shape.filter,
+    sort: shape.sort,
+    count: shape.count,
+    p50: percentile(shape.latencies, 50),
+    p95: percentile(shape.latencies, 95),
+    p99: percentile(shape.latencies, 99),
+    examinedRatio: shape.returned > 0 || shape.docsExamined > 0
+      ? parseFloat((shape.docsExamined / Math.max(shape.returned, 1)).toFixed(2))
+      : undefined,
+    planSummaries: shape.planSummaries,
+  };
+}
+
+/**
+ * Flags shapes whose p95 latency grew by at least `threshold` percent, or
+ * that now run with plans the baseline never saw (a new COLLSCAN above all)
+ */
+function compareWithBaseline(shapes: BaselineShape[], baseline: QueryBaseline, threshold: number) {
+  const before = new Map(baseline.shapes.map((shape) => [shape.key, shape]));
+  const regressions: Document[] = [];
+  let newShapes = 0;
+
+  for (const shape of shapes) {
+    const previous = before.get(shape.key);
+    if (!previous) {
+      newShapes++;
+      continue;
+    }
+    const describe = { collection: shape.collection, operation: shape.operation, filter: shape.filter, sort: shape.sort };
+
+    // Sub-millisecond changes are noise in profiler timings
+    if (shape.p95 !== undefined && previous.p95 !== undefined && shape.p95 - previous.p95 >= 1) {
+      const change = ((shape.p95 - previous.p95) / Math.max(previous.p95, 1)) * 100;
+      if (change >= threshold) {
+        regressions.push({ ...describe, kind: 'latency', p95Before: previous.p95, p95After: shape.p95, changePercent: Math.round(change) });
+      }
+    }
+
+    const newPlans = shape.planSummaries.filter((plan) => !previous.planSummaries.includes(plan));
+    if (newPlans.length > 0 && previous.planSummaries.length > 0) {
+      regressions.push({
+        ...describe,
+        kind: newPlans.some((plan) => plan.startsWith('COLLSCAN')) ? 'collectionScan' : 'planChange',
+        plansBefore: previous.planSummaries,
+        plansAfter: shape.planSummaries,
+      });
+    }
+  }
+
+  const current = new Set(shapes.map((shape) => shape.key));
+  return {
+    baseline: baseline.name,
+    baselineCreatedAt: baseline.createdAt,
+    baselineSource: `${baseline.connection}/${baseline.database}`,
+    regressions,
+    newShapes,
+    shapesNoLongerSeen: baseline.shapes.filter((shape) => !current.has(shape.key)).length,
+  };
 }
@@ -0,0 +1,97 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { logToolUsage, logError } from '../utils/logger.js';
+import { createToolRegistrar } from './registrar.js';
+import type { ScoutSession } from '../server/connections.js';
+import { preprocessQuery } from '../utils/query-preprocessor.js';
+import { protectPipeline } from '../utils/access-policy.js';
+import { getPiiMode, scanDocumentsForPii } from '../utils/pii.js';
+import { formatJson } from '../utils/ejson.js';
+
+const MAX_SCAN_SAMPLE = 1000;
+
+export function registerPrivacyTools(server: McpServer, session: ScoutSession): void {
+  const registerTool = createToolRegistrar(server, session);
+
+  registerTool(
+    'scanForPII',
+    'Sample a collection and report which fields appear to hold personal data (emails, phone numbers, credit cards, IBANs, national IDs, IP addresses)',
+    {
+      collection: z.string(),
+      sampleSize: z.number().int().positive().max(MAX_SCAN_SAMPLE).optional(),
+      filter: z.record(z.any()).optional(),
+      minMatchRatio: z.number().min(0).max(1).optional(),
+    },
+    async (args, { db }) => {
+      logToolUsage('scanForPII', args);
+      const { collection, sampleSize = 200, filter = {}, minMatchRatio = 0 } = args;
+      try {
+        const pipeline: Record<string, unknown>[] = [];
+        if (Object.keys(filter).length > 0) {
+          pipeline.push({ $match: await preprocessQuery(db, collection, filter) });
+        }
+        pipeline.push({ $sample: { size: sampleSize } });
+
+        const documents = await db.collection(collection).aggregate(protectPipeline(collection, pipeline)).toArray();
+
+        if (documents.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatJson({
+                  collection,
+                  message: 'No documents found to scan',
+                }),
+              },
+            ],
+          };
+        }
+
+        const fields = scanDocumentsForPii(documents).filter((field) => field.matchRatio >= minMatchRatio);
+
+        const recommendations: string[] = [];
+        if (fields.length === 0) {
+          recommendations.push('✓ No personal data detected in the sampled documents');
+        } else {
+          const likely = fields.filter((field) => field.matchRatio >= 0.5).map((field) => field.field);
+          if (likely.length > 0) {
+            recommendations.push(`Fields that mostly hold personal data: ${likely.join(', ')}`);
+          }
+          if (getPiiMode() === 'off') {
+            recommendations.push('PII masking is off - enable it with --pii-mode mask|hash or the pii.mode profile setting');
+          }
+          recommendations.push('Consider field rules in the access policy to hide or mask these fields permanently');
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatJson(
+                {
+                  collection,
+                  documentsScanned: documents.length,
+                  piiMode: getPiiMode(),
+                  fields,
+                  recommendations,
+                }
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        logError('scanForPII', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error scanning for PII: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
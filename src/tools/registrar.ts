@@ -0,0 +1,367 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { getPipelineCollections, getPipelineOutputCollections } from '../utils/limits.js';
+import { findOpaqueFieldAccess, findProtectedFieldReference, getCollectionAccessError, isOperationAllowed } from '../utils/access-policy.js';
+import { runAudited, type AuditContext } from '../utils/audit-log.js';
+import { OUTPUT_FORMATS, parseExtendedJson, runWithOutputFormat } from '../utils/ejson.js';
+import { collectCoercions } from '../utils/query-preprocessor.js';
+import { publishCollectionChanges } from '../utils/resource-events.js';
+import { resolveMaxResponseBytes, runWithResponseBudget } from '../utils/response-budget.js';
+import type { ScoutSession, ToolTarget } from '../server/connections.js';
+import type { MongoPipeline, PolicyOperation } from '../types.js';
+
+export type ToolHandler = (args: any, target: ToolTarget) => any;
+
+export type RegisterTool = (
+  toolName: string,
+  description: string,
+  schema: any,
+  handler: ToolHandler,
+  writeOperation?: boolean
+) => void;
+
+interface RegisteredTool {
+  schema: z.ZodTypeAny;
+  callback: (args: any) => Promise<any>;
+}
+
+// Tools per server, so prompts can gather context through the same checks as clients
+const registeredTools = new WeakMap<McpServer, Map<string, RegisteredTool>>();
+
+const COLLECTION_ARG_KEYS = ['collection', 'source', 'destination', 'referenceCollection'];
+
+// Secondary collection arguments always have the same kind of access
+const SECONDARY_COLLECTION_ACCESS: Record<string, PolicyOperation> = {
+  source: 'read',
+  destination: 'write',
+  referenceCollection: 'read',
+};
+
+// Metadata, diagnostic and DDL tools checked against the policy's `admin` rules
+const ADMIN_TOOLS = new Set([
+  'createCollection', 'dropCollection', 'getCollectionStats', 'getCollectionMetrics',
+  'listIndexes', 'createIndex', 'dropIndex', 'explainQuery', 'analyzeQueryPerformance',
+  'getValidator', 'setValidator', 'recommendIndexes', 'auditIndexes', 'hideIndex', 'unhideIndex', 'indexBuildProgress',
+  'startRecording', 'stopRecording', 'setAlertRule', 'connect',
+]);
+
+// Admin tools that act on the whole server rather than on a collection, so they need admin access to all collections
+const SERVER_ADMIN_TOOLS = new Set(['startRecording', 'stopRecording', 'setAlertRule', 'connect']);
+
+// Arguments that can reference document fields in filters, sorts or expressions, or
+// copy, rename or unset them in updates (which would move a protected value out of reach of its rule)
+const FIELD_REFERENCE_ARGS = [
+  'query', 'filter', 'sort', 'hint', 'field', 'foreignKey', 'validator', 'update', 'replacement',
+  'oldFieldName', 'newFieldName', 'options.filter', 'options.sort', 'query.filter', 'query.sort',
+];
+
+// Parts of bulkWrite operations and transaction steps checked the same way
+const OPERATION_REFERENCE_KEYS = ['filter', 'update', 'replacement'];
+
+// Tools that take the target collection as `name` rather than `collection`
+const COLLECTION_NAME_TOOLS = new Set(['createCollection', 'dropCollection']);
+
+// Tools that manage connections themselves and don't take a `connection` argument
+const CONNECTION_TOOLS = new Set(['listConnections', 'switchConnection', 'connect']);
+
+// Database-scoped tools without a collection argument that still accept `database`
+const DATABASE_SCOPED_TOOLS = new Set(['listCollections', 'getHottestCollections', 'getSlowestOperations', 'undoOperation', 'runTransaction', 'diffSchema']);
+
+/**
+ * Creates the registerTool helper shared by all tool modules. Every tool gets
+ * an optional `connection` argument and collection-scoped tools an optional
+ * `database` argument; the handler receives the resolved target as its second
+ * parameter. Arguments are parsed as Extended JSON; optional `outputFormat`,
+ * `maxResponseBytes` and `maxTokens` arguments control how results are
+ * serialized and how large they may get. Write tools are skipped entirely
+ * when no connection is read-write, and otherwise checked per call against
+ * the mode of the connection the call resolves to. Every call, including refused ones, is written to the audit
+ * log.
+ */
+export function createToolRegistrar(server: McpServer, session: ScoutSession): RegisterTool {
+  return (toolName, description, schema, handler, writeOperation = false) => {
+    if (writeOperation && session.registry.serverMode === 'read-only') {
+      return;
+    }
+
+    const acceptsDatabase = isDatabaseScoped(toolName, schema) && !('database' in schema);
+    const fullSchema = CONNECTION_TOOLS.has(toolName)
+      ? schema
+      : {
+          ...schema,
+          ...(acceptsDatabase
+            ? { database: z.string().optional().describe('Database to run against (defaults to the session database)') }
+            : {}),
+          connection: z.string().optional().describe('Named connection to run against (defaults to the active connection)'),
+          outputFormat: z
+            .enum(OUTPUT_FORMATS)
+            .optional()
+            .describe("Result serialization: 'relaxed' EJSON (default), 'canonical' EJSON with explicit number types, or lossy plain 'json'"),
+          maxResponseBytes: z.number().int().min(1024).optional().describe('Trim the response to this many bytes (overrides the server default)'),
+          maxTokens: z.number().int().min(256).optional().describe('Trim the response to roughly this many tokens'),
+        };
+
+    const callback = async (args: any) => {
+      const { connection, outputFormat, maxResponseBytes, maxTokens, ...rawArgs } = args || {};
+      let database: string | undefined;
+      if (acceptsDatabase) {
+        database = rawArgs.database;
+        delete rawArgs.database;
+      }
+
+      // The audit log keeps the arguments as sent, EJSON wrappers included
+      const audit: AuditContext = {
+        tool: toolName,
+        args: rawArgs,
+        serverMode: session.registry.serverMode,
+        connection: connection || session.activeConnection,
+        database,
+      };
+
+      return runAudited(audit, async () => {
+        let toolArgs: Record<string, any>;
+        try {
+          toolArgs = parseExtendedJson(rawArgs);
+        } catch (error) {
+          return errorResult(`Invalid Extended JSON in arguments: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        const operation: PolicyOperation = ADMIN_TOOLS.has(toolName) ? 'admin' : writeOperation ? 'write' : 'read';
+        const accessError = checkCollectionAccess(toolName, operation, toolArgs);
+        if (accessError) {
+          audit.outcome = 'denied';
+          return errorResult(accessError);
+        }
+
+        // Connection management tools work on the session directly and never read the target
+        if (CONNECTION_TOOLS.has(toolName)) {
+          return handler(toolArgs, undefined as unknown as ToolTarget);
+        }
+
+        let target: ToolTarget;
+        try {
+          target = await session.resolve(connection, database);
+        } catch (error) {
+          return errorResult(error instanceof Error ? error.message : String(error));
+        }
+
+        audit.connection = target.connection;
+        audit.connectionMode = target.mode;
+        audit.database = target.dbName;
+
+        if (writeOperation && target.mode === 'read-only') {
+          audit.outcome = 'denied';
+          return errorResult(`Operation blocked: connection '${target.connection}' is read-only. ${toolName} requires a read-write connection.`);
+        }
+
+        // Writes can create collections implicitly (first insert, upsert, $out, $merge)
+        const outputs = Array.isArray(toolArgs.pipeline) ? getPipelineOutputCollections(toolArgs.pipeline, target.dbName) : [];
+        const written = [...(writeOperation ? getWrittenCollections(toolArgs) : []), ...outputs];
+
+        return runWithOutputFormat(outputFormat, () =>
+          runWithResponseBudget(toolName, resolveMaxResponseBytes(maxResponseBytes, maxTokens), () =>
+            withCoercionReport(() => publishCollectionChanges(target, () => handler(toolArgs, target), written, outputs))
+          )
+        );
+      });
+    };
+
+    server.tool(toolName, description, fullSchema, callback);
+    getRegisteredTools(server).set(toolName, { schema: z.object(fullSchema), callback });
+  };
+}
+
+/**
+ * Calls a tool registered on the server the same way a client would, with
+ * argument validation, access checks, auditing and the response budget.
+ * Used by prompts to gather context.
+ */
+export async function callRegisteredTool(
+  server: McpServer,
+  toolName: string,
+  args: Record<string, unknown>
+): Promise<{ content: Array<{ type: string; text?: string }>; isError?: boolean }> {
+  const tool = registeredTools.get(server)?.get(toolName);
+  if (!tool) {
+    return errorResult(`Tool '${toolName}' is not available on this server.`);
+  }
+
+  const parsed = tool.schema.safeParse(args);
+  if (!parsed.success) {
+    return errorResult(`Invalid arguments for ${toolName}: ${parsed.error.message}`);
+  }
+  return tool.callback(parsed.data);
+}
+
+function getRegisteredTools(server: McpServer): Map<string, RegisteredTool> {
+  let tools = registeredTools.get(server);
+  if (!tools) {
+    tools = new Map();
+    registeredTools.set(server, tools);
+  }
+  return tools;
+}
+
+function errorResult(text: string) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Runs a handler and appends a note listing the filter values that were
+ * converted to the types sampled from the collection
+ */
+async function withCoercionReport(run: () => Promise<any>) {
+  const { result, coercions } = await collectCoercions(run);
+  if (coercions.length === 0 || !Array.isArray(result?.content)) {
+    return result;
+  }
+
+  const lines = [
+    ...new Set(coercions.map(({ collection, path, value, type }) => `- ${collection}: ${path} ${JSON.stringify(value)} → ${type}`)),
+  ];
+  return {
+    ...result,
+    content: [
+      ...result.content,
+      {
+        type: 'text' as const,
+        text: `Coerced filter values to the field types sampled from the collection:\n${lines.join('\n')}`,
+      },
+    ],
+  };
+}
+
+function isDatabaseScoped(toolName: string, schema: Record<string, unknown>): boolean {
+  return (
+    DATABASE_SCOPED_TOOLS.has(toolName) ||
+    COLLECTION_NAME_TOOLS.has(toolName) ||
+    COLLECTION_ARG_KEYS.some((key) => key in schema)
+  );
+}
+
+function getCollectionsFromArgs(
+  toolName: string,
+  operation: PolicyOperation,
+  args: Record<string, unknown>
+): Array<{ collection: string; operation: PolicyOperation }> {
+  const collections: Array<{ collection: string; operation: PolicyOperation }> = [];
+
+  if (typeof args.collection === 'string') {
+    collections.push({ collection: args.collection, operation });
+  }
+
+  for (const [key, access] of Object.entries(SECONDARY_COLLECTION_ACCESS)) {
+    if (typeof args[key] === 'string') {
+      collections.push({ collection: args[key] as string, operation: access });
+    }
+  }
+
+  if (COLLECTION_NAME_TOOLS.has(toolName) && typeof args.name === 'string') {
+    collections.push({ collection: args.name, operation });
+  }
+
+  // runTransaction steps each name the collection they write to
+  for (const step of getTransactionSteps(args)) {
+    collections.push({ collection: step.collection as string, operation: 'write' });
+  }
+
+  if (Array.isArray(args.pipeline)) {
+    const pipeline = args.pipeline as MongoPipeline;
+    getPipelineCollections(pipeline).forEach((collection) => collections.push({ collection, operation: 'read' }));
+    getPipelineOutputCollections(pipeline).forEach((collection) => collections.push({ collection, operation: 'write' }));
+  }
+
+  return collections;
+}
+
+function getWrittenCollections(args: Record<string, unknown>): string[] {
+  const collections = getTransactionSteps(args).map((step) => step.collection as string);
+  if (typeof args.collection === 'string') collections.push(args.collection);
+  return collections;
+}
+
+function getTransactionSteps(args: Record<string, unknown>): Array<Record<string, unknown>> {
+  if (!Array.isArray(args.operations)) return [];
+  return (args.operations as Array<Record<string, unknown>>).filter((step) => typeof step?.collection === 'string');
+}
+
+// bulkWrite operations wrap their arguments in the operation name: {updateOne: {filter, update}}
+function getBulkWriteSpecs(args: Record<string, unknown>): Array<Record<string, unknown>> {
+  if (!Array.isArray(args.operations)) return [];
+  return (args.operations as Array<Record<string, unknown>>)
+    .filter((operation) => operation && typeof operation === 'object' && typeof operation.collection !== 'string')
+    .flatMap((operation) => Object.values(operation))
+    .filter((spec): spec is Record<string, unknown> => !!spec && typeof spec === 'object');
+}
+
+/**
+ * Returns why a filter/sort/expression may not be used on a collection with
+ * field rules: it names a protected field, or reads fields without naming them
+ */
+function getFieldReferenceError(collection: string, label: string, value: unknown): string | undefined {
+  const field = findProtectedFieldReference(collection, value);
+  if (field) {
+    return `Access denied: ${label} references protected field '${field}' of collection '${collection}'.`;
+  }
+  const operator = findOpaqueFieldAccess(collection, value);
+  if (operator) {
+    return `Access denied: ${label} uses ${operator}, which is not allowed on collection '${collection}' because it has field access rules.`;
+  }
+  return undefined;
+}
+
+function getArg(args: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    args
+  );
+}
+
+/**
+ * Applies the collection allow-list and the access policy. Returns an error
+ * message when the call must be refused.
+ */
+function checkCollectionAccess(toolName: string, operation: PolicyOperation, args: Record<string, unknown>): string | undefined {
+  for (const { collection, operation: access } of getCollectionsFromArgs(toolName, operation, args)) {
+    const accessError = getCollectionAccessError(collection, access);
+    if (accessError) {
+      return accessError;
+    }
+  }
+
+  if (SERVER_ADMIN_TOOLS.has(toolName) && !isOperationAllowed('*', 'admin')) {
+    return `Access denied: ${toolName} needs admin access to all collections, which the access policy does not permit.`;
+  }
+
+  // Filtering or sorting on a protected field would reveal its values by inference
+  const primary = typeof args.collection === 'string' ? args.collection : (args.source as string | undefined);
+  if (primary) {
+    for (const path of FIELD_REFERENCE_ARGS) {
+      const error = getFieldReferenceError(primary, `'${path}'`, getArg(args, path));
+      if (error) return error;
+    }
+    for (const [index, spec] of getBulkWriteSpecs(args).entries()) {
+      for (const key of OPERATION_REFERENCE_KEYS) {
+        const error = getFieldReferenceError(primary, `${key} of operation ${index}`, spec[key]);
+        if (error) return error;
+      }
+    }
+  }
+
+  for (const [index, step] of getTransactionSteps(args).entries()) {
+    for (const key of OPERATION_REFERENCE_KEYS) {
+      const error = getFieldReferenceError(step.collection as string, `${key} of step ${index}`, step[key]);
+      if (error) return error;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,342 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ObjectId, type Db, type Document } from 'mongodb';
+import { logToolUsage, logError } from '../utils/logger.js';
+import { createToolRegistrar } from './registrar.js';
+import type { ScoutSession, ToolTarget } from '../server/connections.js';
+import { formatJson } from '../utils/ejson.js';
+import { protectPii } from '../utils/pii.js';
+import { getCollectionAccessError } from '../utils/access-policy.js';
+import { inferSchema, sampleDocuments } from '../utils/schema-inference.js';
+import { listSchemaSnapshots, loadSchemaSnapshot, saveSchemaSnapshot } from '../utils/schema-snapshots.js';
+import { dateChanges, diffSchemas, isEmptyDiff, type SchemaDiff, type SchemaSlice } from '../utils/schema-diff.js';
+import { parseDate } from '../utils/dates.js';
+import type { InferredSchema } from '../types.js';
+
+const MAX_DIFFED_COLLECTIONS = 50;
+const MAX_SAMPLE_SIZE = 1000;
+
+const schemaSource = z
+  .object({
+    snapshotId: z.string().optional().describe('A snapshot saved by snapshotSchema'),
+    connection: z.string().optional(),
+    database: z.string().optional(),
+    collection: z.string().optional().describe('Omit to compare whole databases'),
+    since: z.string().optional().describe('Only documents whose ObjectId _id was created at or after this date'),
+    until: z.string().optional().describe('Only documents whose ObjectId _id was created before this date'),
+  })
+  .strict();
+
+type SchemaSourceSpec = z.infer<typeof schemaSource>;
+
+type ResolvedSource =
+  | { kind: 'collection'; label: string; schema: InferredSchema }
+  | { kind: 'database'; label: string; db: Db; collections: string[]; filter: Document };
+
+export function registerSchemaDriftTools(server: McpServer, session: ScoutSession): void {
+  const registerTool = createToolRegistrar(server, session);
+
+  registerTool(
+    'snapshotSchema',
+    'Infer the schema of a collection and save it with a timestamp to the local snapshot store, for later comparison with diffSchema',
+    {
+      collection: z.string(),
+      sampleSize: z.number().int().positive().max(MAX_SAMPLE_SIZE).optional(),
+      label: z.string().optional(),
+      since: z.string().optional().describe('Only sample documents whose ObjectId _id was created at or after this date'),
+      until: z.string().optional().describe('Only sample documents whose ObjectId _id was created before this date'),
+    },
+    async (args, { db, dbName, connection }) => {
+      logToolUsage('snapshotSchema', args);
+      const { collection, sampleSize = 100, label, since, until } = args;
+      try {
+        const docs = await sampleDocuments(db, collection, sampleSize, idRangeFilter(since, until));
+        if (docs.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'Collection is empty or no documents found; no snapshot was saved.',
+              },
+            ],
+          };
+        }
+
+        // Snapshots are stored on disk, so examples are masked before they are written
+        const { schema, ...snapshot } = await saveSchemaSnapshot({
+          label,
+          connection,
+          database: dbName,
+          collection,
+          sampledDocuments: docs.length,
+          schema: protectPii(inferSchema(docs)),
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatJson({ ...snapshot, fields: Object.keys(schema).length }),
+            },
+          ],
+        };
+      } catch (error) {
+        logError('snapshotSchema', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error saving schema snapshot: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  registerTool(
+    'listSchemaSnapshots',
+    'List saved schema snapshots of the database, newest first',
+    {
+      collection: z.string().optional(),
+    },
+    async (args, { dbName, connection }) => {
+      logToolUsage('listSchemaSnapshots', args);
+      const { collection } = args;
+      try {
+        const snapshots = (await listSchemaSnapshots({ connection, database: dbName, collection })).filter(
+          (snapshot) => !getCollectionAccessError(snapshot.collection, 'read')
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatJson(snapshots),
+            },
+          ],
+        };
+      } catch (error) {
+        logError('listSchemaSnapshots', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error listing schema snapshots: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  registerTool(
+    'diffSchema',
+    'Compare the schemas of two snapshots, collections (e.g. staging and prod connections) or whole databases. Lists added and removed fields, type changes, presence shifts and new enum values. With slices, the "to" collection is split by ObjectId _id creation time to date when each change first appeared.',
+    {
+      from: schemaSource,
+      to: schemaSource,
+      sampleSize: z.number().int().positive().max(MAX_SAMPLE_SIZE).optional(),
+      presenceThreshold: z.number().min(0).max(100).optional().describe('Smallest presence change to report, in percentage points (default 5)'),
+      slices: z.number().int().min(2).max(24).optional(),
+    },
+    async (args, target) => {
+      logToolUsage('diffSchema', args);
+      const { sampleSize = 100, presenceThreshold = 5, slices } = args;
+      const from = withTargetDefaults(args.from, target);
+      const to = withTargetDefaults(args.to, target);
+      try {
+        const before = await resolveSource(session, from, sampleSize);
+        const after = await resolveSource(session, to, sampleSize);
+
+        if (before.kind === 'collection' && after.kind === 'collection') {
+          const diff = diffSchemas(before.schema, after.schema, presenceThreshold);
+          const timeline = slices ? await sliceByIdTime(session, to, slices, sampleSize) : undefined;
+          if (timeline) dateChanges(diff, timeline);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatJson({
+                  from: before.label,
+                  to: after.label,
+                  identical: isEmptyDiff(diff),
+                  summary: summarize(diff),
+                  ...diff,
+                  slices: timeline?.map((slice) => slice.start.toISOString()),
+                }),
+              },
+            ],
+          };
+        }
+
+        if (before.kind === 'database' && after.kind === 'database') {
+          if (slices) {
+            throw new Error('slices can only be used when comparing collections');
+          }
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatJson(await diffDatabases(before, after, sampleSize, presenceThreshold)),
+              },
+            ],
+          };
+        }
+
+        throw new Error('Compare a collection or snapshot with another collection or snapshot, or a database with another database');
+      } catch (error) {
+        logError('diffSchema', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error comparing schemas: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
+
+// ObjectIds start with their creation time in seconds, so a time range is an _id range
+function idRangeFilter(since?: string, until?: string): Document {
+  const range: Document = {};
+  if (since) range.$gte = ObjectId.createFromTime(Math.floor(parseDate(since, 'since').getTime() / 1000));
+  if (until) range.$lt = ObjectId.createFromTime(Math.floor(parseDate(until, 'until').getTime() / 1000));
+  return Object.keys(range).length > 0 ? { _id: range } : {};
+}
+
+function rangeLabel(spec: SchemaSourceSpec): string {
+  if (!spec.since && !spec.until) return '';
+  return ` [${spec.since ?? '…'} – ${spec.until ?? 'now'}]`;
+}
+
+// A side naming neither a connection nor a database uses the call's connection and database;
+// a side naming only a connection uses that connection's default database
+function withTargetDefaults(spec: SchemaSourceSpec, target: ToolTarget): SchemaSourceSpec {
+  if (spec.snapshotId || spec.connection) return spec;
+  return { ...spec, connection: target.connection, database: spec.database ?? target.dbName };
+}
+
+function assertReadable(collection: string): void {
+  const accessError = getCollectionAccessError(collection, 'read');
+  if (accessError) {
+    throw new Error(accessError);
+  }
+}
+
+async function resolveSource(session: ScoutSession, spec: SchemaSourceSpec, sampleSize: number): Promise<ResolvedSource> {
+  if (spec.snapshotId) {
+    const snapshot = await loadSchemaSnapshot(spec.snapshotId);
+    if (!snapshot) {
+      throw new Error(`Schema snapshot '${spec.snapshotId}' not found. Use listSchemaSnapshots to see saved snapshots.`);
+    }
+    assertReadable(snapshot.collection);
+    return {
+      kind: 'collection',
+      label: `snapshot ${snapshot.id} (${snapshot.connection}/${snapshot.database}.${snapshot.collection}, ${snapshot.createdAt})`,
+      schema: snapshot.schema,
+    };
+  }
+
+  const target = await session.resolve(spec.connection, spec.database);
+  const filter = idRangeFilter(spec.since, spec.until);
+  if (spec.collection) {
+    assertReadable(spec.collection);
+    const docs = await sampleDocuments(target.db, spec.collection, sampleSize, filter);
+    return {
+      kind: 'collection',
+      label: `${target.connection}/${target.dbName}.${spec.collection}${rangeLabel(spec)}`,
+      schema: protectPii(inferSchema(docs)),
+    };
+  }
+
+  const collections = await target.db.listCollections({}, { nameOnly: true }).toArray();
+  return {
+    kind: 'database',
+    label: `${target.connection}/${target.dbName}${rangeLabel(spec)}`,
+    db: target.db,
+    collections: collections
+      .map((collection) => collection.name)
+      .filter((name) => !name.startsWith('system.') && !getCollectionAccessError(name, 'read')),
+    filter,
+  };
+}
+
+/**
+ * Splits the source collection's _id time range into equal slices, oldest
+ * first, and infers a schema for each
+ */
+async function sliceByIdTime(session: ScoutSession, spec: SchemaSourceSpec, slices: number, sampleSize: number): Promise<SchemaSlice[]> {
+  if (!spec.collection || spec.snapshotId) {
+    throw new Error('slices need a collection (not a snapshot) as "to"');
+  }
+
+  const { db } = await session.resolve(spec.connection, spec.database);
+  const collection = db.collection(spec.collection);
+  let start = spec.since ? parseDate(spec.since, 'since') : undefined;
+  if (!start) {
+    const oldest = await collection.find({}, { projection: { _id: 1 }, sort: { _id: 1 }, limit: 1 }).next();
+    if (!oldest) return [];
+    if (!(oldest._id instanceof ObjectId)) {
+      throw new Error('slices need ObjectId _id values to date documents');
+    }
+    start = oldest._id.getTimestamp();
+  }
+  const end = spec.until ? parseDate(spec.until, 'until') : new Date();
+  const step = (end.getTime() - start.getTime()) / slices;
+  if (step <= 0) {
+    throw new Error('since must be before until');
+  }
+
+  const result: SchemaSlice[] = [];
+  for (let i = 0; i < slices; i++) {
+    const sliceStart = new Date(start.getTime() + step * i);
+    const sliceEnd = new Date(start.getTime() + step * (i + 1));
+    const filter = idRangeFilter(sliceStart.toISOString(), sliceEnd.toISOString());
+    const docs = await sampleDocuments(db, spec.collection, sampleSize, filter);
+    result.push({ start: sliceStart, schema: protectPii(inferSchema(docs)) });
+  }
+  return result;
+}
+
+function summarize(diff: SchemaDiff): Record<string, number> {
+  return Object.fromEntries(Object.entries(diff).map(([kind, changes]) => [kind, changes.length]));
+}
+
+async function diffDatabases(
+  before: Extract<ResolvedSource, { kind: 'database' }>,
+  after: Extract<ResolvedSource, { kind: 'database' }>,
+  sampleSize: number,
+  presenceThreshold: number
+) {
+  const shared = before.collections.filter((name) => after.collections.includes(name)).sort();
+  const compared = shared.slice(0, MAX_DIFFED_COLLECTIONS);
+  const collections: Record<string, unknown> = {};
+
+  for (const name of compared) {
+    const [beforeDocs, afterDocs] = await Promise.all([
+      sampleDocuments(before.db, name, sampleSize, before.filter),
+      sampleDocuments(after.db, name, sampleSize, after.filter),
+    ]);
+    const diff = diffSchemas(protectPii(inferSchema(beforeDocs)), protectPii(inferSchema(afterDocs)), presenceThreshold);
+    if (!isEmptyDiff(diff)) {
+      collections[name] = { summary: summarize(diff), ...diff };
+    }
+  }
+
+  return {
+    from: before.label,
+    to: after.label,
+    collectionsAdded: after.collections.filter((name) => !before.collections.includes(name)).sort(),
+    collectionsRemoved: before.collections.filter((name) => !after.collections.includes(name)).sort(),
+    collectionsCompared: compared.length,
+    collectionsNotCompared: shared.length > compared.length ? shared.length - compared.length : undefined,
+    collectionsChanged: collections,
+  };
+}
@@ -1,25 +1,37 @@
-import type { Db } from 'mongodb';
-import { ObjectId } from 'mongodb';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { logToolUsage, logError } from '../utils/logger.js';
-import type { MongoDocument } from '../types.js';
+import { createToolRegistrar } from './registrar.js';
+import type { ScoutSession } from '../server/connections.js';
+import { formatJson } from '../utils/ejson.js';
+import { protectPii } from '../utils/pii.js';
+import { inferSchema, omitFields, sampleDocuments, toJsonSchema, toValidator } from '../utils/schema-inference.js';
+import { preprocessQuery } from '../utils/query-preprocessor.js';
+import { findProtectedFieldReference, getFieldRules, redactDocuments } from '../utils/access-policy.js';
+import type { Db, Document } from 'mongodb';
+import type { InferredSchema, MongoFilter } from '../types.js';
 
-export function registerSchemaTools(server: McpServer, db: Db): void {
-  server.tool(
+const MAX_FAILURE_CHECKS = 50;
+const MAX_SAMPLE_SIZE = 1000;
+
+export function registerSchemaTools(server: McpServer, session: ScoutSession): void {
+  const registerTool = createToolRegistrar(server, session);
+
+  registerTool(
     'inferSchema',
-    'Infer the schema of a collection from its documents',
+    'Infer the schema of a collection from a sample of its documents, including embedded documents and arrays. Reports per field the presence, type distribution, cardinality, enum candidates and examples. format: jsonSchema returns a draft-07 JSON Schema, validator a $jsonSchema validator.',
     {
       collection: z.string(),
-      sampleSize: z.number().positive().optional(),
+      sampleSize: z.number().int().positive().max(MAX_SAMPLE_SIZE).optional(),
+      maxDepth: z.number().int().min(0).max(20).optional(),
+      format: z.enum(['summary', 'jsonSchema', 'validator']).optional(),
+      includeEnums: z.boolean().optional().describe('Restrict enum candidates to their sampled values in jsonSchema/validator output'),
     },
-    async (args) => {
+    async (args, { db }) => {
       logToolUsage('inferSchema', args);
-      const { collection, sampleSize = 100 } = args;
+      const { collection, sampleSize = 100, maxDepth, format = 'summary', includeEnums = false } = args;
       try {
-        const pipeline = [{ $sample: { size: sampleSize } }, { $limit: sampleSize }];
-
-        const docs = await db.collection(collection).aggregate(pipeline).toArray();
+        const docs = await sampleDocuments(db, collection, sampleSize);
 
         if (docs.length === 0) {
           return {
@@ -32,45 +44,24 @@ export function registerSchemaTools(server: McpServer, db: Db): void {
           };
         }
 
-        const inferSchema = (documents: MongoDocument[]): Record<string, string[]> => {
-          const schemaMap = new Map<string, Set<string>>();
-
-          documents.forEach((doc) => {
-            Object.entries(doc).forEach(([key, value]) => {
-              if (!schemaMap.has(key)) {
-                schemaMap.set(key, new Set());
-              }
-
-              const typeSet = schemaMap.get(key)!;
-              if (value === null) {
-                typeSet.add('null');
-              } else if (value instanceof ObjectId) {
-                typeSet.add('ObjectId');
-              } else if (Array.isArray(value)) {
-                typeSet.add('Array');
-              } else if (value instanceof Date) {
-                typeSet.add('Date');
-              } else {
-                typeSet.add(typeof value);
-              }
-            });
-          });
-
-          const schema: Record<string, string[]> = {};
-          schemaMap.forEach((types, field) => {
-            schema[field] = Array.from(types);
-          });
-
-          return schema;
-        };
-
-        const schema = inferSchema(docs);
+        const schema = inferSchema(docs, maxDepth);
+        let result: unknown;
+        switch (format) {
+          case 'jsonSchema':
+            result = toJsonSchema(withoutProtectedFields(collection, schema), collection, includeEnums);
+            break;
+          case 'validator':
+            result = toValidator(withoutProtectedFields(collection, schema), includeEnums);
+            break;
+          default:
+            result = { collection, sampledDocuments: docs.length, fields: protectPii(schema) };
+        }
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(schema, null, 2),
+              text: formatJson(result),
             },
           ],
         };
@@ -88,4 +79,306 @@ export function registerSchemaTools(server: McpServer, db: Db): void {
       }
     }
   );
+
+  registerTool(
+    'getValidator',
+    'Show the validation rules of a collection: the validator, validationLevel and validationAction',
+    {
+      collection: z.string(),
+    },
+    async (args, { db }) => {
+      logToolUsage('getValidator', args);
+      const { collection } = args;
+      try {
+        const validation = await readValidation(db, collection);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: validation
+                ? formatJson({ collection, ...validation })
+                : `Collection '${collection}' not found.`,
+            },
+          ],
+        };
+      } catch (error) {
+        logError('getValidator', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error reading validator: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  registerTool(
+    'setValidator',
+    'Set the validation rules of a collection with collMod. Pass validator ({} removes it), validationLevel and/or validationAction. Use testValidator or dryRun first to see how many existing documents would fail.',
+    {
+      collection: z.string(),
+      validator: z.record(z.any()).optional(),
+      validationLevel: z.enum(['off', 'strict', 'moderate']).optional(),
+      validationAction: z.enum(['error', 'warn']).optional(),
+      dryRun: z.boolean().optional(),
+    },
+    async (args, { db }) => {
+      logToolUsage('setValidator', args);
+      const { collection, validator, validationLevel, validationAction, dryRun = false } = args;
+      try {
+        if (validator === undefined && validationLevel === undefined && validationAction === undefined) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'Nothing to change: pass validator, validationLevel or validationAction.',
+              },
+            ],
+          };
+        }
+
+        const previous = await readValidation(db, collection);
+        if (!previous) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Collection '${collection}' not found. Create it with createCollection (options.validator) instead.`,
+              },
+            ],
+          };
+        }
+
+        const proposed = {
+          validator: validator ?? previous.validator,
+          validationLevel: validationLevel ?? previous.validationLevel,
+          validationAction: validationAction ?? previous.validationAction,
+        };
+
+        if (dryRun) {
+          const failing = Object.keys(proposed.validator).length > 0
+            ? await db.collection(collection).countDocuments({ $nor: [proposed.validator] })
+            : 0;
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatJson({
+                  dryRun: true,
+                  operation: 'setValidator',
+                  collection,
+                  current: previous,
+                  proposed,
+                  existingDocumentsFailing: failing,
+                  note: failing > 0
+                    ? 'Existing documents that fail are kept, but with validationLevel strict their updates are rejected (or logged with validationAction warn). Run testValidator to see them.'
+                    : undefined,
+                }),
+              },
+            ],
+          };
+        }
+
+        const command: Document = { collMod: collection };
+        if (validator !== undefined) command.validator = validator;
+        if (validationLevel !== undefined) command.validationLevel = validationLevel;
+        if (validationAction !== undefined) command.validationAction = validationAction;
+        await db.command(command);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatJson({
+                collection,
+                previous,
+                current: await readValidation(db, collection),
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        logError('setValidator', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error setting validator: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    },
+    true
+  );
+
+  registerTool(
+    'testValidator',
+    'Count and sample the existing documents that would fail a proposed validator, with a breakdown by missing required fields, unexpected types and values outside enums. Without a validator, one is inferred from a sample (as inferSchema format: validator).',
+    {
+      collection: z.string(),
+      validator: z.record(z.any()).optional(),
+      filter: z.record(z.any()).optional(),
+      includeEnums: z.boolean().optional(),
+      sampleSize: z.number().int().min(0).max(20).optional(),
+    },
+    async (args, { db }) => {
+      logToolUsage('testValidator', args);
+      const { collection, filter = {}, includeEnums = false, sampleSize = 5 } = args;
+      try {
+        let validator: Document | undefined = args.validator;
+        let inferred = false;
+        if (!validator) {
+          const docs = await sampleDocuments(db, collection, 100);
+          if (docs.length === 0) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: 'Collection is empty or no documents found; pass a validator to test.',
+                },
+              ],
+            };
+          }
+          validator = toValidator(withoutProtectedFields(collection, inferSchema(docs)), includeEnums);
+          inferred = true;
+        }
+
+        const processedFilter = await preprocessQuery(db, collection, filter);
+        const collectionObj = db.collection(collection);
+        const failingFilter = { $and: [processedFilter, { $nor: [validator] }] };
+
+        const [totalDocuments, failingDocuments] = await Promise.all([
+          collectionObj.countDocuments(processedFilter),
+          collectionObj.countDocuments(failingFilter),
+        ]);
+        const samples = sampleSize > 0 && failingDocuments > 0
+          ? protectPii(redactDocuments(collection, await collectionObj.find(failingFilter).limit(sampleSize).toArray()))
+          : [];
+
+        const failures = validator.$jsonSchema
+          ? await explainFailures(db, collection, processedFilter, validator.$jsonSchema as Document)
+          : undefined;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatJson({
+                collection,
+                validator: inferred ? validator : undefined,
+                inferred: inferred || undefined,
+                totalDocuments,
+                failingDocuments,
+                failingPercentage: totalDocuments > 0 ? parseFloat(((failingDocuments / totalDocuments) * 100).toFixed(2)) : 0,
+                failures,
+                sampleFailingDocuments: samples,
+                recommendation: failingDocuments === 0
+                  ? 'All documents pass. The validator can be applied with setValidator (validationLevel strict, validationAction error).'
+                  : 'Fix or migrate the failing documents first, or roll out with validationLevel moderate and validationAction warn and tighten later.',
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        logError('testValidator', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error testing validator: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Drops masked and hidden fields before a schema is rendered as rules: the
+ * sample only holds their mask string, or nothing, so their types and
+ * presence would be wrong
+ */
+function withoutProtectedFields(collection: string, schema: InferredSchema): InferredSchema {
+  return omitFields(schema, getFieldRules(collection).map(({ path }) => path));
+}
+
+async function readValidation(
+  db: Db,
+  collection: string
+): Promise<{ validator: Document; validationLevel: string; validationAction: string } | undefined> {
+  const [info] = await db.listCollections({ name: collection }).toArray();
+  if (!info) return undefined;
+  const options = ('options' in info ? info.options : {}) as Document;
+  return {
+    validator: options.validator ?? {},
+    validationLevel: options.validationLevel ?? 'strict',
+    validationAction: options.validationAction ?? 'error',
+  };
+}
+
+interface FailureCheck {
+  field: string;
+  reason: 'missing' | 'type' | 'enum';
+  expected?: unknown;
+  filter: MongoFilter;
+}
+
+/**
+ * Turns the required, bsonType and enum rules of a $jsonSchema into per-field
+ * checks, the same way findMissingFields and findInconsistentTypes count
+ * documents. Array items are not followed.
+ */
+function collectFailureChecks(schema: Document, prefix: string, parentFilter: MongoFilter, checks: FailureCheck[]): void {
+  for (const field of (schema.required as string[] | undefined) ?? []) {
+    const path = prefix ? `${prefix}.${field}` : field;
+    checks.push({ field: path, reason: 'missing', filter: { ...parentFilter, [path]: { $exists: false } } });
+  }
+
+  for (const [field, rule] of Object.entries((schema.properties as Record<string, Document> | undefined) ?? {})) {
+    const path = prefix ? `${prefix}.${field}` : field;
+    // JSON Schema `type` names match $type aliases except boolean; integer has no alias
+    const types = rule.bsonType ?? (rule.type === 'boolean' ? 'bool' : rule.type === 'integer' ? ['int', 'long'] : rule.type);
+    if (types) {
+      checks.push({
+        field: path,
+        reason: 'type',
+        expected: types,
+        filter: { ...parentFilter, [path]: { $exists: true, $not: { $type: types } } },
+      });
+    }
+    if (Array.isArray(rule.enum)) {
+      checks.push({
+        field: path,
+        reason: 'enum',
+        expected: rule.enum,
+        filter: { ...parentFilter, [path]: { $exists: true, $nin: rule.enum } },
+      });
+    }
+    if (rule.properties || rule.required) {
+      collectFailureChecks(rule, path, { ...parentFilter, [path]: { $type: 'object' } }, checks);
+    }
+  }
+}
+
+async function explainFailures(db: Db, collection: string, filter: MongoFilter, schema: Document) {
+  const checks: FailureCheck[] = [];
+  collectFailureChecks(schema, '', {}, checks);
+
+  const failures = [];
+  // Counting by protected fields would reveal their values, so those checks are skipped
+  for (const check of checks.filter((c) => !findProtectedFieldReference(collection, c.field)).slice(0, MAX_FAILURE_CHECKS)) {
+    const count = await db.collection(collection).countDocuments({ $and: [filter, check.filter] });
+    if (count > 0) {
+      failures.push({ field: check.field, reason: check.reason, expected: check.expected, documents: count });
+    }
+  }
+  return failures.sort((a, b) => b.documents - a.documents);
 }
@@ -0,0 +1,304 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ClientSession, Db, ReadConcernLevel, WriteConcernSettings } from 'mongodb';
+import { z } from 'zod';
+import { logToolUsage, logError } from '../utils/logger.js';
+import { createToolRegistrar } from './registrar.js';
+import type { ScoutSession } from '../server/connections.js';
+import { preprocessQuery } from '../utils/query-preprocessor.js';
+import { recordAffectedDocuments, type AffectedDocuments } from '../utils/audit-log.js';
+import { confirmationRequired, consumeConfirmationToken } from '../utils/confirmation.js';
+import { formatJson } from '../utils/ejson.js';
+
+const MAX_TRANSACTION_STEPS = 100;
+
+type StepOperation = 'insertOne' | 'insertMany' | 'updateOne' | 'updateMany' | 'replaceOne' | 'deleteOne' | 'deleteMany';
+
+interface TransactionStep {
+  op: StepOperation;
+  collection: string;
+  filter?: Record<string, any>;
+  update?: Record<string, any>;
+  replacement?: Record<string, any>;
+  document?: Record<string, any>;
+  documents?: Record<string, any>[];
+  upsert?: boolean;
+}
+
+interface StepResult {
+  step: number;
+  op: StepOperation;
+  collection: string;
+  status: 'ok' | 'failed' | 'skipped';
+  inserted?: number;
+  matched?: number;
+  modified?: number;
+  deleted?: number;
+  upserted?: number;
+  error?: string;
+}
+
+const stepSchema = z.object({
+  op: z.enum(['insertOne', 'insertMany', 'updateOne', 'updateMany', 'replaceOne', 'deleteOne', 'deleteMany']),
+  collection: z.string(),
+  filter: z.record(z.any()).optional(),
+  update: z.record(z.any()).optional(),
+  replacement: z.record(z.any()).optional(),
+  document: z.record(z.any()).optional(),
+  documents: z.array(z.record(z.any())).optional(),
+  upsert: z.boolean().optional(),
+});
+
+export function registerTransactionTools(server: McpServer, session: ScoutSession): void {
+  const registerTool = createToolRegistrar(server, session);
+
+  registerTool(
+    'runTransaction',
+    'Run an ordered list of insert/update/replace/delete steps across collections atomically in one transaction (requires a replica set or sharded cluster). Rolls back everything on the first failing step. Two-phase: the first call returns what each step would match and a confirmationToken; call again with the same arguments plus the token to execute. Use dryRun for the report only.',
+    {
+      operations: z.array(stepSchema).min(1).max(MAX_TRANSACTION_STEPS),
+      readConcern: z.enum(['local', 'majority', 'snapshot']).optional(),
+      writeConcern: z.object({
+        w: z.union([z.number().int().nonnegative(), z.literal('majority')]).optional(),
+        j: z.boolean().optional(),
+        wtimeoutMS: z.number().int().positive().optional(),
+      }).optional(),
+      maxCommitTimeMS: z.number().int().positive().optional(),
+      dryRun: z.boolean().optional(),
+      confirmationToken: z.string().optional(),
+    },
+    async (args, target) => {
+      logToolUsage('runTransaction', args);
+      const { client, db } = target;
+      const {
+        operations,
+        readConcern = 'snapshot',
+        writeConcern = { w: 'majority' },
+        maxCommitTimeMS,
+        dryRun = false,
+        confirmationToken,
+      } = args;
+      try {
+        const invalidStep = (operations as TransactionStep[])
+          .map((step, index) => validateStep(step, index))
+          .find((message) => message !== undefined);
+        if (invalidStep) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: invalidStep,
+              },
+            ],
+          };
+        }
+
+        if (dryRun || !confirmationToken) {
+          const preview = {
+            steps: await previewSteps(db, operations),
+            note: 'Counts are evaluated against the current data; they do not include the effect of earlier steps in the same transaction.',
+          };
+          if (!dryRun) {
+            return confirmationRequired('runTransaction', args, target, preview);
+          }
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatJson({ dryRun: true, operation: 'runTransaction', ...preview }),
+              },
+            ],
+          };
+        }
+
+        const tokenError = consumeConfirmationToken('runTransaction', args, target, confirmationToken);
+        if (tokenError) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: tokenError,
+              },
+            ],
+          };
+        }
+
+        const startTime = Date.now();
+        const clientSession = client.startSession();
+        let steps: StepResult[] = [];
+        let failure: string | undefined;
+        try {
+          await clientSession.withTransaction(
+            async () => {
+              // withTransaction retries the callback on transient errors, so start each attempt fresh
+              steps = [];
+              for (const [index, step] of (operations as TransactionStep[]).entries()) {
+                try {
+                  steps.push({ step: index, op: step.op, collection: step.collection, status: 'ok', ...(await runStep(db, step, clientSession)) });
+                } catch (error) {
+                  steps.push({
+                    step: index,
+                    op: step.op,
+                    collection: step.collection,
+                    status: 'failed',
+                    error: error instanceof Error ? error.message : String(error),
+                  });
+                  throw error;
+                }
+              }
+            },
+            {
+              readConcern: { level: readConcern as ReadConcernLevel },
+              writeConcern: writeConcern as WriteConcernSettings,
+              maxCommitTimeMS,
+            }
+          );
+        } catch (error) {
+          failure = error instanceof Error ? error.message : String(error);
+        } finally {
+          await clientSession.endSession();
+        }
+
+        const executionTimeMs = Date.now() - startTime;
+
+        if (failure !== undefined) {
+          logError('runTransaction', failure, args);
+          const skipped = (operations as TransactionStep[]).slice(steps.length).map((step, offset) => ({
+            step: steps.length + offset,
+            op: step.op,
+            collection: step.collection,
+            status: 'skipped' as const,
+          }));
+          return {
+            content: [
+              {
+                type: 'text',
+                text: formatJson({
+                  committed: false,
+                  rolledBack: true,
+                  error: failure,
+                  hint: /replica set|Transaction numbers/i.test(failure)
+                    ? 'Transactions require a replica set or sharded cluster. A standalone server can be started as a single-node replica set.'
+                    : undefined,
+                  // Counts of successful steps describe work that was rolled back
+                  steps: [...steps, ...skipped],
+                  executionTimeMs,
+                }),
+              },
+            ],
+          };
+        }
+
+        recordAffectedDocuments(sumStepCounts(steps));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatJson({
+                committed: true,
+                readConcern,
+                writeConcern,
+                steps,
+                executionTimeMs,
+              }),
+            },
+          ],
+        };
+      } catch (error) {
+        logError('runTransaction', error, args);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error running transaction: ${errorMessage}`,
+            },
+          ],
+        };
+      }
+    },
+    true
+  );
+}
+
+function validateStep(step: TransactionStep, index: number): string | undefined {
+  const required: Record<StepOperation, Array<keyof TransactionStep>> = {
+    insertOne: ['document'],
+    insertMany: ['documents'],
+    updateOne: ['filter', 'update'],
+    updateMany: ['filter', 'update'],
+    replaceOne: ['filter', 'replacement'],
+    deleteOne: ['filter'],
+    deleteMany: ['filter'],
+  };
+  const missing = required[step.op].filter((field) => step[field] === undefined);
+  return missing.length > 0
+    ? `Invalid step ${index} (${step.op} on '${step.collection}'): missing ${missing.join(', ')}`
+    : undefined;
+}
+
+async function runStep(db: Db, step: TransactionStep, session: ClientSession): Promise<Omit<StepResult, 'step' | 'op' | 'collection' | 'status'>> {
+  const collection = db.collection(step.collection);
+  const filter = step.filter ? await preprocessQuery(db, step.collection, step.filter) : {};
+
+  switch (step.op) {
+    case 'insertOne':
+      await collection.insertOne(step.document!, { session });
+      return { inserted: 1 };
+    case 'insertMany': {
+      const result = await collection.insertMany(step.documents!, { session });
+      return { inserted: result.insertedCount };
+    }
+    case 'updateOne':
+    case 'updateMany': {
+      const options = { session, upsert: step.upsert };
+      const result = step.op === 'updateOne'
+        ? await collection.updateOne(filter, step.update!, options)
+        : await collection.updateMany(filter, step.update!, options);
+      return { matched: result.matchedCount, modified: result.modifiedCount, upserted: result.upsertedCount };
+    }
+    case 'replaceOne': {
+      const result = await collection.replaceOne(filter, step.replacement!, { session, upsert: step.upsert });
+      return { matched: result.matchedCount, modified: result.modifiedCount, upserted: result.upsertedCount };
+    }
+    case 'deleteOne':
+    case 'deleteMany': {
+      const result = step.op === 'deleteOne'
+        ? await collection.deleteOne(filter, { session })
+        : await collection.deleteMany(filter, { session });
+      return { deleted: result.deletedCount };
+    }
+  }
+}
+
+async function previewSteps(db: Db, steps: TransactionStep[]) {
+  return Promise.all(
+    steps.map(async (step, index) => {
+      if (step.op === 'insertOne' || step.op === 'insertMany') {
+        return { step: index, op: step.op, collection: step.collection, wouldInsert: step.op === 'insertOne' ? 1 : step.documents!.length };
+      }
+
+      const matchCount = await db.collection(step.collection).countDocuments(await preprocessQuery(db, step.collection, step.filter!));
+      const single = step.op === 'updateOne' || step.op === 'replaceOne' || step.op === 'deleteOne';
+      return {
+        step: index,
+        op: step.op,
+        collection: step.collection,
+        wouldMatch: single ? Math.min(matchCount, 1) : matchCount,
+        wouldUpsert: step.upsert && matchCount === 0 ? true : undefined,
+      };
+    })
+  );
+}
+
+function sumStepCounts(steps: StepResult[]): AffectedDocuments {
+  const totals: AffectedDocuments = {};
+  for (const step of steps) {
+    for (const key of ['inserted', 'matched', 'modified', 'deleted', 'upserted'] as const) {
+      if (step[key] !== undefined) {
+        totals[key] = (totals[key] || 0) + step[key]!;
+      }
+    }
+  }
+  return totals;
+}
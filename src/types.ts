@@ -52,6 +52,11 @@ export interface ServerStatus {
       writers: number;
     };
   };
+  repl?: {
+    setName?: string;
+    isWritablePrimary?: boolean;
+    secondary?: boolean;
+  };
   asserts?: {
     regular: number;
     warning: number;
@@ -110,6 +115,8 @@ export interface CurrentOperation {
   desc: string;
   threadId: string;
   connectionId: number;
+  msg?: string;
+  progress?: { done: number; total: number };
 }
 
 export interface ProfilerEntry {
@@ -135,11 +142,157 @@ export interface MongoAdminError {
   mongoError?: Record<string, unknown>;
 }
 
+export type TransportMode = 'stdio' | 'http';
+
+export interface HttpTransportConfig {
+  host: string;
+  port: number;
+  authToken?: string;
+  /** Streamable HTTP sessions without a request for this long are closed */
+  sessionIdleMinutes: number;
+}
+
+export interface LoggingConfig {
+  enabled: boolean;
+  dir: string;
+}
+
+export interface AuditLogConfig {
+  enabled: boolean;
+  file: string;
+  maxSizeMB: number;
+  maxAgeDays: number;
+  // Rotated files older than this are deleted
+  retentionDays: number;
+  // HMAC key for the hash chain
+  key?: string;
+}
+
+export interface JournalConfig {
+  enabled: boolean;
+  maxDocuments: number;
+  maxSizeMB: number;
+  collectionSizeMB: number;
+}
+
+export interface CursorConfig {
+  maxOpen: number;
+  idleTimeoutMinutes: number;
+}
+
+export interface SchemaSnapshotConfig {
+  dir: string;
+  maxPerCollection: number;
+}
+
+export interface QueryBaselineConfig {
+  dir: string;
+}
+
+export type AlertLevel = 'warning' | 'critical';
+
+/**
+ * A threshold rule over a recorded metric. It fires once the metric has
+ * been past a threshold for `forSeconds`.
+ */
+export interface AlertRule {
+  name: string;
+  metric: string;
+  condition: 'above' | 'below';
+  warning?: number;
+  critical?: number;
+  forSeconds: number;
+  connection?: string;
+}
+
+export interface AlertConfig {
+  rules: AlertRule[];
+  webhook?: string;
+  command?: string;
+}
+
+/**
+ * A rule starting to fire, changing level, or resolving
+ */
+export interface AlertEvent {
+  rule: string;
+  connection: string;
+  metric: string;
+  level: AlertLevel | 'resolved';
+  value: number;
+  threshold?: number;
+  since?: string;
+  at: string;
+  message: string;
+}
+
+export interface MetricsConfig {
+  intervalSeconds: number;
+  maxSamples: number;
+  file?: string;
+  recordOnStart: boolean;
+}
+
+export interface RateLimitConfig {
+  adminPerMinute: number;
+}
+
+export interface ResultLimitsConfig {
+  maxDocuments?: number;
+  maxResponseBytes: number;
+}
+
+export type PolicyOperation = 'read' | 'write' | 'admin';
+
+export type FieldAction = 'hide' | 'mask';
+
+export interface CollectionAccessRule {
+  allow?: string[];
+  deny?: string[];
+}
+
+export interface AccessPolicyConfig {
+  collections?: Partial<Record<PolicyOperation, CollectionAccessRule>>;
+  fields?: Record<string, FieldAction>;
+}
+
+export type PiiType = 'email' | 'phone' | 'creditCard' | 'iban' | 'nationalId' | 'ipAddress';
+
+export type PiiMode = 'off' | 'mask' | 'hash';
+
+export interface PiiConfig {
+  mode: PiiMode;
+  detectors: PiiType[];
+  salt?: string;
+}
+
+export interface ConnectionConfig {
+  uri: string;
+  database: string;
+  mode: string;
+}
+
 export interface AppConfig {
   uri: string;
   dbName: string;
   mode: string;
-  logDir: string;
+  profile?: string;
+  logging: LoggingConfig;
+  audit: AuditLogConfig;
+  journal: JournalConfig;
+  cursors: CursorConfig;
+  schemaSnapshots: SchemaSnapshotConfig;
+  queryBaselines: QueryBaselineConfig;
+  metrics: MetricsConfig;
+  alerts: AlertConfig;
+  rateLimits: RateLimitConfig;
+  allowedCollections?: string[];
+  limits: ResultLimitsConfig;
+  connections: Record<string, ConnectionConfig>;
+  policy: AccessPolicyConfig;
+  pii: PiiConfig;
+  transport: TransportMode;
+  http: HttpTransportConfig;
 }
 
 export interface CurrentOpCommand {
@@ -150,6 +303,7 @@ export interface CurrentOpCommand {
   $truncateOps?: boolean;
   ns?: string;
   microsecs_running?: { $gte: number };
+  $or?: Array<Record<string, unknown>>;
 }
 
 export interface CurrentOpResult {
@@ -204,6 +358,10 @@ export interface LiveMetric {
   };
   memory: NonNullable<ServerStatus['mem']>;
   globalLock: NonNullable<ServerStatus['globalLock']>;
+  // Replica set members only: how far the slowest secondary trails the primary
+  replication?: {
+    lagSeconds: number;
+  };
 }
 
 export interface ProfilerStatus {
@@ -309,19 +467,81 @@ export type MongoProjection = Record<string, number | boolean>;
 export type MongoSort = Record<string, 1 | -1>;
 export type MongoPipeline = Array<Record<string, unknown>>;
 
+/**
+ * A field inferred from sampled documents. Percentages are relative to the
+ * parent documents (or array elements) that were sampled.
+ */
 export interface SchemaField {
+  // Most common BSON type ($type alias)
   type: string;
+  // Share of each BSON type among the field's values, in percent
+  types: Record<string, number>;
+  // Share of parent documents that have the field, in percent
+  presence?: number;
   required?: boolean;
+  // Every sampled value was distinct
   unique?: boolean;
+  // Distinct scalar values seen in the sample, a lower bound for the collection
+  cardinality?: number;
+  // Candidate values when a few values repeat across the sample
   enum?: unknown[];
   examples?: unknown[];
+  // Fields of embedded documents
   nested?: Record<string, SchemaField>;
+  // Elements of arrays
+  items?: SchemaField;
 }
 
 export type InferredSchema = Record<string, SchemaField>;
 
+export type SchemaOutputFormat = 'summary' | 'jsonSchema' | 'validator';
+
+/**
+ * An inferred schema saved by snapshotSchema
+ */
+export interface SchemaSnapshot {
+  id: string;
+  createdAt: string;
+  label?: string;
+  connection: string;
+  database: string;
+  collection: string;
+  sampledDocuments: number;
+  schema: InferredSchema;
+}
+
+/**
+ * Latency and plans of one query shape, as saved in a baseline
+ */
+export interface BaselineShape {
+  key: string;
+  collection: string;
+  operation: string;
+  filter: Record<string, unknown>;
+  sort?: Record<string, number>;
+  count: number;
+  p50?: number;
+  p95?: number;
+  p99?: number;
+  examinedRatio?: number;
+  planSummaries: string[];
+}
+
+/**
+ * Query shape statistics saved by getQueryShapes for later comparison
+ */
+export interface QueryBaseline {
+  name: string;
+  createdAt: string;
+  connection: string;
+  database: string;
+  shapes: BaselineShape[];
+}
+
 export interface ToolHandler<TArgs = unknown, TResult = unknown> {
   (args: TArgs): Promise<TResult>;
 }
 
 export type VerbosityLevel = 'summary' | 'standard' | 'full';
+
+export type OutputFormat = 'relaxed' | 'canonical' | 'json';
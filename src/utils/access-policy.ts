@@ -0,0 +1,333 @@
+/**
+ * Collection- and field-level access policy loaded from the config file
+ */
+import type { AccessPolicyConfig, FieldAction, MongoPipeline, PolicyOperation } from '../types.js';
+import { isCollectionAllowed } from './limits.js';
+import { JOURNAL_COLLECTION } from './journal.js';
+
+export const MASKED_VALUE = '***MASKED***';
+
+interface FieldRule {
+  collection: string;
+  path: string;
+  action: FieldAction;
+}
+
+let collectionRules: AccessPolicyConfig['collections'] = {};
+let fieldRules: FieldRule[] = [];
+
+export function configureAccessPolicy(policy: AccessPolicyConfig = {}): void {
+  collectionRules = policy.collections || {};
+  fieldRules = Object.entries(policy.fields || {}).map(([key, action]) => {
+    const separator = key.indexOf('.');
+    if (separator <= 0 || separator === key.length - 1) {
+      throw new Error(`Invalid field rule '${key}'. Expected '<collection>.<field path>' (use '*' for any collection).`);
+    }
+    return { collection: key.slice(0, separator), path: key.slice(separator + 1), action };
+  });
+}
+
+function matchesPattern(pattern: string, name: string): boolean {
+  if (pattern === '*') return true;
+  if (pattern.endsWith('*')) return name.startsWith(pattern.slice(0, -1));
+  return pattern === name;
+}
+
+/**
+ * Deny rules win over allow rules. When an allow-list exists for an operation,
+ * only matching collections are permitted.
+ */
+export function isOperationAllowed(collection: string, operation: PolicyOperation): boolean {
+  const rule = collectionRules?.[operation];
+  if (!rule) return true;
+  if (rule.deny?.some((pattern) => matchesPattern(pattern, collection))) return false;
+  if (rule.allow) return rule.allow.some((pattern) => matchesPattern(pattern, collection));
+  return true;
+}
+
+/**
+ * Applies the undo journal guard, the collection allow-list and the access
+ * policy. Returns an error message when the collection can't be used.
+ */
+export function getCollectionAccessError(collection: string, operation: PolicyOperation): string | undefined {
+  if (collection === JOURNAL_COLLECTION) {
+    return `Access denied: '${JOURNAL_COLLECTION}' is managed by the undo journal. Use listJournal and undoOperation instead.`;
+  }
+  if (!isCollectionAllowed(collection)) {
+    return `Access denied: collection '${collection}' is not in the allowed collections list for this server.`;
+  }
+  if (!isOperationAllowed(collection, operation)) {
+    return `Access denied: ${operation} access to collection '${collection}' is not permitted by the access policy.`;
+  }
+  return undefined;
+}
+
+export function getFieldRules(collection: string): Array<{ path: string; action: FieldAction }> {
+  return fieldRules
+    .filter((rule) => matchesPattern(rule.collection, collection))
+    .map(({ path, action }) => ({ path, action }));
+}
+
+export function hasFieldRules(collection: string): boolean {
+  return getFieldRules(collection).length > 0;
+}
+
+function pathsOverlap(a: string, b: string): boolean {
+  return a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`);
+}
+
+// Operators that run JavaScript, which can read any field of the document
+const CODE_OPERATORS = new Set(['$where', '$function', '$accumulator']);
+
+// Variables bound to the whole document
+const ROOT_VARIABLES = ['$$ROOT', '$$CURRENT'];
+
+interface FieldReferences {
+  paths: string[];
+  // Operators and variables that can read fields not named in the query
+  opaque: string[];
+}
+
+/**
+ * Collects field paths referenced by a filter, sort or expression: plain keys,
+ * keys nested under logical operators, `$field` string references, $getField
+ * names and the properties of a $jsonSchema.
+ */
+function collectFieldReferences(value: unknown, prefix = '', refs: FieldReferences = { paths: [], opaque: [] }): FieldReferences {
+  if (typeof value === 'string') {
+    const root = ROOT_VARIABLES.find((variable) => value === variable || value.startsWith(`${variable}.`));
+    if (root) {
+      if (value === root) refs.opaque.push(root);
+      else refs.paths.push(value.slice(root.length + 1));
+    } else if (value.startsWith('$') && !value.startsWith('$$')) {
+      refs.paths.push(value.slice(1));
+    }
+    return refs;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectFieldReferences(item, prefix, refs));
+    return refs;
+  }
+  if (!value || typeof value !== 'object' || value.constructor !== Object) {
+    return refs;
+  }
+
+  for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
+    if (CODE_OPERATORS.has(key)) {
+      refs.opaque.push(key);
+    } else if (key === '$getField') {
+      collectGetFieldReference(nested, prefix, refs);
+    } else if (key === '$jsonSchema') {
+      collectSchemaReferences(nested, prefix, refs);
+    } else if (key.startsWith('$')) {
+      // Operators keep the current field context ($and, $elemMatch, $gt, $expr, ...)
+      collectFieldReferences(nested, prefix, refs);
+    } else {
+      const path = prefix ? `${prefix}.${key}` : key;
+      refs.paths.push(path);
+      collectFieldReferences(nested, path, refs);
+    }
+  }
+  return refs;
+}
+
+// {$getField: "name"} or {$getField: {field: "name" | {$literal: "name"}, input}}
+function collectGetFieldReference(value: unknown, prefix: string, refs: FieldReferences): void {
+  const spec = value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : { field: value };
+  const field = spec.field && typeof spec.field === 'object' ? (spec.field as Record<string, unknown>).$literal : spec.field;
+  if (typeof field === 'string') {
+    refs.paths.push(field);
+  } else {
+    // A computed name could resolve to any field
+    refs.opaque.push('$getField');
+  }
+  // Reading a named field of the whole document is covered by the name itself
+  if (!ROOT_VARIABLES.includes(spec.input as string)) {
+    collectFieldReferences(spec.input, prefix, refs);
+  }
+}
+
+// Constraints on properties (and required fields) test those fields' values
+function collectSchemaReferences(schema: unknown, prefix: string, refs: FieldReferences): void {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) return;
+  const rules = schema as Record<string, unknown>;
+  const join = (field: string) => (prefix ? `${prefix}.${field}` : field);
+
+  if (Array.isArray(rules.required)) {
+    rules.required.filter((field): field is string => typeof field === 'string').forEach((field) => refs.paths.push(join(field)));
+  }
+  for (const [field, nested] of Object.entries((rules.properties as Record<string, unknown> | undefined) ?? {})) {
+    refs.paths.push(join(field));
+    collectSchemaReferences(nested, join(field), refs);
+  }
+  if (rules.patternProperties || rules.dependencies || (rules.additionalProperties && typeof rules.additionalProperties === 'object')) {
+    refs.opaque.push('$jsonSchema');
+  }
+  for (const key of ['items', 'additionalItems', 'not']) {
+    collectSchemaReferences(rules[key], prefix, refs);
+  }
+  for (const key of ['allOf', 'anyOf', 'oneOf']) {
+    if (Array.isArray(rules[key])) {
+      (rules[key] as unknown[]).forEach((nested) => collectSchemaReferences(nested, prefix, refs));
+    }
+  }
+  if (Array.isArray(rules.items)) {
+    rules.items.forEach((nested) => collectSchemaReferences(nested, prefix, refs));
+  }
+}
+
+/**
+ * Returns the first protected field referenced by a filter/sort/expression,
+ * so callers can refuse queries that would reveal protected values by inference
+ */
+export function findProtectedFieldReference(collection: string, value: unknown): string | undefined {
+  const rules = getFieldRules(collection);
+  if (rules.length === 0 || value === undefined || value === null) return undefined;
+
+  const refs = typeof value === 'string' ? [value] : collectFieldReferences(value).paths;
+  for (const ref of refs) {
+    const rule = rules.find((r) => pathsOverlap(ref, r.path));
+    if (rule) return rule.path;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the first operator that can read fields without naming them
+ * (JavaScript, computed $getField names, $$ROOT, open-ended $jsonSchema
+ * rules). Refused on collections with field rules, since the protected-field
+ * check can't see what they read.
+ */
+export function findOpaqueFieldAccess(collection: string, value: unknown): string | undefined {
+  if (!hasFieldRules(collection) || !value || typeof value !== 'object') return undefined;
+  return collectFieldReferences(value).opaque[0];
+}
+
+/**
+ * Find projections may use aggregation expressions to copy a protected field
+ * under another name, so only plain inclusion/exclusion is allowed on
+ * collections with field rules.
+ */
+export function validateProjection(collection: string, projection?: Record<string, unknown>): string | undefined {
+  if (!projection || !hasFieldRules(collection)) return undefined;
+
+  for (const [field, value] of Object.entries(projection)) {
+    const isPlain = typeof value === 'number' || typeof value === 'boolean';
+    const isTextScore = typeof value === 'object' && value !== null && (value as Record<string, unknown>).$meta === 'textScore';
+    if (!isPlain && !isTextScore) {
+      return `Projection expression on '${field}' is not allowed on collection '${collection}' because it has field access rules. Use aggregate instead.`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Stages that hide and mask protected fields at the source, before any later
+ * stage ($project, $group, $replaceRoot, ...) can copy them elsewhere
+ */
+export function redactionStages(collection: string): MongoPipeline {
+  const rules = getFieldRules(collection);
+  if (rules.length === 0) return [];
+
+  const stages: MongoPipeline = [];
+  const hidden = rules.filter((r) => r.action === 'hide').map((r) => r.path);
+  const masked = rules.filter((r) => r.action === 'mask').map((r) => r.path);
+
+  if (hidden.length > 0) {
+    stages.push({ $unset: hidden });
+  }
+  if (masked.length > 0) {
+    const set: Record<string, unknown> = {};
+    for (const path of masked) {
+      set[path] = {
+        $cond: [{ $eq: [{ $type: `$${path}` }, 'missing'] }, '$$REMOVE', MASKED_VALUE],
+      };
+    }
+    stages.push({ $set: set });
+  }
+  return stages;
+}
+
+/**
+ * Prepends redaction for the source collection and rewrites $lookup and
+ * $unionWith so joined collections are redacted too. $graphLookup cannot
+ * take a sub-pipeline and is refused on collections with field rules.
+ */
+export function protectPipeline(collection: string, pipeline: MongoPipeline): MongoPipeline {
+  return [...redactionStages(collection), ...pipeline.map(protectStage)];
+}
+
+function protectStage(stage: Record<string, unknown>): Record<string, unknown> {
+  if (stage.$lookup) {
+    const lookup = stage.$lookup as Record<string, unknown>;
+    const from = lookup.from as string | undefined;
+    const subPipeline = Array.isArray(lookup.pipeline) ? (lookup.pipeline as MongoPipeline) : [];
+    if (!from || (!hasFieldRules(from) && !Array.isArray(lookup.pipeline))) return stage;
+    return { $lookup: { ...lookup, pipeline: protectPipeline(from, subPipeline) } };
+  }
+
+  if (stage.$unionWith) {
+    const unionWith = typeof stage.$unionWith === 'string'
+      ? { coll: stage.$unionWith }
+      : (stage.$unionWith as Record<string, unknown>);
+    const coll = unionWith.coll as string;
+    const subPipeline = Array.isArray(unionWith.pipeline) ? (unionWith.pipeline as MongoPipeline) : [];
+    return { $unionWith: { ...unionWith, pipeline: protectPipeline(coll, subPipeline) } };
+  }
+
+  if (stage.$graphLookup) {
+    const from = (stage.$graphLookup as Record<string, unknown>).from as string;
+    if (hasFieldRules(from)) {
+      throw new Error(`$graphLookup on '${from}' is not allowed because the collection has field access rules`);
+    }
+  }
+
+  if (stage.$facet) {
+    const facets: Record<string, unknown> = {};
+    for (const [name, facetPipeline] of Object.entries(stage.$facet as Record<string, MongoPipeline>)) {
+      facets[name] = facetPipeline.map(protectStage);
+    }
+    return { $facet: facets };
+  }
+
+  return stage;
+}
+
+function applyRule(target: unknown, segments: string[], action: FieldAction): void {
+  if (Array.isArray(target)) {
+    target.forEach((item) => applyRule(item, segments, action));
+    return;
+  }
+  if (!target || typeof target !== 'object') return;
+
+  const obj = target as Record<string, unknown>;
+  const [head, ...rest] = segments;
+  if (!(head in obj)) return;
+
+  if (rest.length > 0) {
+    applyRule(obj[head], rest, action);
+  } else if (action === 'hide') {
+    delete obj[head];
+  } else {
+    obj[head] = MASKED_VALUE;
+  }
+}
+
+/**
+ * Redacts documents already read from a collection (find-style reads)
+ */
+export function redactDocuments<T>(collection: string, docs: T[]): T[] {
+  const rules = getFieldRules(collection);
+  if (rules.length === 0) return docs;
+
+  for (const doc of docs) {
+    for (const rule of rules) {
+      applyRule(doc, rule.path.split('.'), rule.action);
+    }
+  }
+  return docs;
+}
+
+export function redactDocument<T>(collection: string, doc: T): T {
+  return doc ? redactDocuments(collection, [doc])[0] : doc;
+}
@@ -0,0 +1,282 @@
+/**
+ * Threshold alerting on recorded metrics. Rules come from the config file
+ * or setAlertRule and are evaluated against every sample the metrics
+ * recorder takes. A rule fires at `warning` or `critical` once its metric
+ * has been past the threshold for `forSeconds`, and resolves on the first
+ * sample back within it. Each change is sent to listeners (MCP logging
+ * notifications) and to the configured webhook and command.
+ */
+import { spawn, type ChildProcess } from 'child_process';
+import type { AlertConfig, AlertEvent, AlertLevel, AlertRule, LiveMetric } from '../types.js';
+import { DEFAULT_CONNECTION } from '../server/connections.js';
+import { HISTORY_FIELD_NAMES, metricValue, onMetricSample } from './metrics-recorder.js';
+import { logError } from './logger.js';
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+interface AlertState {
+  // When the metric first crossed a threshold, and the critical one, in ms
+  breachSince?: number;
+  criticalSince?: number;
+  level?: AlertLevel;
+  firingSince?: string;
+  value?: number;
+  lastSample?: string;
+}
+
+export interface ActiveAlert extends AlertRule {
+  connection: string;
+  state: 'firing' | 'pending';
+  level?: AlertLevel;
+  value?: number;
+  threshold?: number;
+  since?: string;
+  lastSample?: string;
+}
+
+let config: AlertConfig = { rules: [] };
+// Rules and their states by ruleKey: names only need to be unique per connection
+const rules = new Map<string, AlertRule>();
+const states = new Map<string, AlertState>();
+// Rules from the config file, which setAlertRule can't replace or remove
+const configRuleKeys = new Set<string>();
+const listeners = new Set<(event: AlertEvent) => void>();
+let unsubscribe: (() => void) | undefined;
+
+/**
+ * Checks that a rule names a recorded metric and has a threshold
+ */
+export function validateAlertRule(rule: AlertRule): void {
+  if (!HISTORY_FIELD_NAMES.includes(rule.metric)) {
+    throw new Error(`Alert rule '${rule.name}': unknown metric '${rule.metric}'. Metrics: ${HISTORY_FIELD_NAMES.join(', ')}`);
+  }
+  if (rule.warning === undefined && rule.critical === undefined) {
+    throw new Error(`Alert rule '${rule.name}' needs a warning or critical threshold`);
+  }
+}
+
+function subscribe(): void {
+  unsubscribe ??= onMetricSample(evaluateAlertRules);
+}
+
+export function configureAlerts(alertConfig: AlertConfig): void {
+  alertConfig.rules.forEach(validateAlertRule);
+  config = alertConfig;
+  rules.clear();
+  states.clear();
+  configRuleKeys.clear();
+  for (const rule of alertConfig.rules) {
+    const key = ruleKey(ruleConnection(rule), rule.name);
+    rules.set(key, rule);
+    configRuleKeys.add(key);
+  }
+  subscribe();
+}
+
+function ruleKey(connection: string, name: string): string {
+  return JSON.stringify([connection, name]);
+}
+
+function checkNotConfigRule(key: string, connection: string, name: string): void {
+  if (configRuleKeys.has(key)) {
+    throw new Error(`Alert rule '${name}' on connection '${connection}' comes from the config file and can't be changed at runtime`);
+  }
+}
+
+export function setAlertRule(rule: AlertRule): void {
+  validateAlertRule(rule);
+  const key = ruleKey(ruleConnection(rule), rule.name);
+  checkNotConfigRule(key, ruleConnection(rule), rule.name);
+  rules.set(key, rule);
+  // A changed rule starts over rather than inheriting the old thresholds' state
+  states.delete(key);
+  subscribe();
+}
+
+export function removeAlertRule(connection: string, name: string): boolean {
+  const key = ruleKey(connection, name);
+  checkNotConfigRule(key, connection, name);
+  states.delete(key);
+  return rules.delete(key);
+}
+
+/**
+ * All rules, or those watching one connection
+ */
+export function listAlertRules(connection?: string): AlertRule[] {
+  const all = [...rules.values()];
+  return connection === undefined ? all : all.filter((rule) => ruleConnection(rule) === connection);
+}
+
+/**
+ * Connections that have rules, so recording can be started for them
+ */
+export function alertedConnections(): string[] {
+  return [...new Set(listAlertRules().map(ruleConnection))];
+}
+
+/**
+ * Calls the listener for every alert that fires, changes level or resolves;
+ * returns a function that removes it
+ */
+export function onAlert(listener: (event: AlertEvent) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function ruleConnection(rule: AlertRule): string {
+  return rule.connection ?? DEFAULT_CONNECTION;
+}
+
+function isPast(rule: AlertRule, value: number, threshold?: number): boolean {
+  if (threshold === undefined) return false;
+  return rule.condition === 'below' ? value < threshold : value > threshold;
+}
+
+function thresholdFor(rule: AlertRule, level: AlertLevel): number | undefined {
+  return level === 'critical' ? rule.critical : rule.warning ?? rule.critical;
+}
+
+function evaluateAlertRules(connection: string, metric: LiveMetric): void {
+  const at = new Date(metric.timestamp).getTime();
+  for (const [key, rule] of rules) {
+    if (ruleConnection(rule) !== connection) continue;
+    const value = metricValue(metric, rule.metric);
+    if (value === undefined) continue;
+
+    const state = states.get(key) ?? {};
+    states.set(key, state);
+    state.value = value;
+    state.lastSample = metric.timestamp;
+
+    const critical = isPast(rule, value, rule.critical);
+    if (!critical && !isPast(rule, value, rule.warning)) {
+      if (state.level) {
+        emit(rule, connection, 'resolved', value, undefined, state.firingSince, metric.timestamp);
+      }
+      states.set(key, { value, lastSample: metric.timestamp });
+      continue;
+    }
+
+    state.breachSince ??= at;
+    state.criticalSince = critical ? state.criticalSince ?? at : undefined;
+    const held = (since?: number) => since !== undefined && at - since >= rule.forSeconds * 1000;
+    const level: AlertLevel | undefined = held(state.criticalSince) ? 'critical' : held(state.breachSince) ? 'warning' : undefined;
+
+    if (level && level !== state.level) {
+      state.level = level;
+      state.firingSince ??= metric.timestamp;
+      emit(rule, connection, level, value, thresholdFor(rule, level), state.firingSince, metric.timestamp);
+    }
+  }
+}
+
+function emit(
+  rule: AlertRule,
+  connection: string,
+  level: AlertEvent['level'],
+  value: number,
+  threshold: number | undefined,
+  since: string | undefined,
+  at: string
+): void {
+  const message =
+    level === 'resolved'
+      ? `${rule.name} resolved: ${rule.metric} is ${round(value)} on '${connection}'`
+      : `${rule.name} ${level}: ${rule.metric} is ${round(value)}, ${rule.condition} ${threshold} for ${rule.forSeconds}s on '${connection}'`;
+  const event: AlertEvent = { rule: rule.name, connection, metric: rule.metric, level, value: round(value), threshold, since, at, message };
+
+  for (const listener of listeners) {
+    listener(event);
+  }
+  void deliver(event);
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(2));
+}
+
+async function deliver(event: AlertEvent): Promise<void> {
+  if (config.webhook) {
+    try {
+      const response = await fetch(config.webhook, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(event),
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+      }
+    } catch (error) {
+      logError('alertWebhook', error, event);
+    }
+  }
+
+  if (config.command) {
+    runAlertCommand(config.command, event);
+  }
+}
+
+// The command gets the event as JSON on stdin and its main fields as environment variables
+function runAlertCommand(command: string, event: AlertEvent): void {
+  // In its own process group, so a timeout also stops what the shell started
+  const child = spawn(command, {
+    shell: true,
+    detached: process.platform !== 'win32',
+    stdio: ['pipe', 'ignore', 'ignore'],
+    env: {
+      ...process.env,
+      MONGO_SCOUT_ALERT_RULE: event.rule,
+      MONGO_SCOUT_ALERT_LEVEL: event.level,
+      MONGO_SCOUT_ALERT_METRIC: event.metric,
+      MONGO_SCOUT_ALERT_VALUE: String(event.value),
+      MONGO_SCOUT_ALERT_MESSAGE: event.message,
+    },
+  });
+  const timer = setTimeout(() => killProcessGroup(child), DELIVERY_TIMEOUT_MS);
+  timer.unref();
+  child.on('error', (error) => logError('alertCommand', error, event));
+  child.on('exit', () => clearTimeout(timer));
+  child.stdin?.on('error', () => {
+    // The command may exit without reading its input
+  });
+  child.stdin?.end(JSON.stringify(event));
+}
+
+function killProcessGroup(child: ChildProcess): void {
+  if (process.platform === 'win32' || child.pid === undefined) {
+    child.kill();
+    return;
+  }
+  try {
+    process.kill(-child.pid, 'SIGKILL');
+  } catch {
+    // The group has already exited
+  }
+}
+
+/**
+ * Rules that are firing, and those past a threshold but not yet for their
+ * full duration
+ */
+export function getActiveAlerts(): ActiveAlert[] {
+  const active: ActiveAlert[] = [];
+  for (const [key, rule] of rules) {
+    const state = states.get(key);
+    if (!state?.breachSince) continue;
+    active.push({
+      ...rule,
+      connection: ruleConnection(rule),
+      state: state.level ? 'firing' : 'pending',
+      level: state.level,
+      value: state.value !== undefined ? round(state.value) : undefined,
+      threshold: state.level ? thresholdFor(rule, state.level) : undefined,
+      since: state.firingSince ?? new Date(state.breachSince).toISOString(),
+      lastSample: state.lastSample,
+    });
+  }
+  // Critical first, then warning, then pending
+  const rank = (alert: ActiveAlert) => (alert.level === 'critical' ? 0 : alert.level === 'warning' ? 1 : 2);
+  return active.sort((a, b) => rank(a) - rank(b));
+}
@@ -0,0 +1,512 @@
+/**
+ * Structured JSONL audit trail. Every entry carries the hash of the previous
+ * one, so editing, removing or reordering entries breaks the chain and is
+ * reported by verifyAuditLog. With a key the hashes are HMACs, so entries
+ * can't be rewritten and re-chained without it. Logging fails closed: calls
+ * are refused while the log can't be opened, and a call whose entry can't be
+ * written returns an error instead of its result.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash, createHmac } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { redactUri } from '../server/connections.js';
+import type { AuditLogConfig } from '../types.js';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+const SECRET_KEY_PATTERN = /password|passwd|secret|token|api[-_]?key|credential|authorization/i;
+
+export type AuditOutcome = 'success' | 'error' | 'denied';
+
+export interface AffectedDocuments {
+  inserted?: number;
+  matched?: number;
+  modified?: number;
+  deleted?: number;
+  upserted?: number;
+}
+
+export interface AuditEntry {
+  seq: number;
+  timestamp: string;
+  tool: string;
+  args: unknown;
+  serverMode: string;
+  connection?: string;
+  connectionMode?: string;
+  database?: string;
+  outcome: AuditOutcome;
+  error?: string;
+  affected?: AffectedDocuments;
+  durationMs: number;
+  prevHash: string;
+  // Set when the hash is an HMAC keyed with audit.key
+  alg?: typeof KEYED_ALGORITHM;
+  hash: string;
+}
+
+const KEYED_ALGORITHM = 'hmac-sha256';
+
+/**
+ * Mutable record for one tool call. The registrar fills in the target once it
+ * is resolved; handlers report affected documents and errors through the
+ * async context, so they don't need to pass it around.
+ */
+export interface AuditContext {
+  tool: string;
+  args: unknown;
+  serverMode: string;
+  connection?: string;
+  connectionMode?: string;
+  database?: string;
+  outcome?: AuditOutcome;
+  error?: string;
+  affected?: AffectedDocuments;
+}
+
+let config: AuditLogConfig = { enabled: false, file: './logs/audit.jsonl', maxSizeMB: 50, maxAgeDays: 30, retentionDays: 365 };
+
+// Chain head, loaded from disk before the first write
+let initialized = false;
+let lastHash = GENESIS_HASH;
+let lastSeq = 0;
+let fileSize = 0;
+let fileStartedAt: number | undefined;
+// Why the chain could not be continued; recorded as the first entry of the new file
+let chainBreak: string | undefined;
+
+let writeQueue: Promise<void> = Promise.resolve();
+const auditStorage = new AsyncLocalStorage<AuditContext>();
+
+export function configureAuditLog(auditConfig: AuditLogConfig): void {
+  config = auditConfig;
+  initialized = false;
+  if (config.enabled && !config.key) {
+    console.error('Audit log is not keyed: set audit.key or MONGO_SCOUT_AUDIT_KEY so entries cannot be rewritten and re-chained');
+  }
+}
+
+// Runs a step after the writes already queued; the queue itself never rejects
+function enqueue<T>(step: () => Promise<T>): Promise<T> {
+  const done = writeQueue.then(step);
+  writeQueue = done.then(
+    () => undefined,
+    () => undefined
+  );
+  return done;
+}
+
+/**
+ * Runs a tool call and appends its audit entry once it settles. The call is
+ * refused when the log can't be opened, and its result is replaced by an
+ * error when its entry can't be written.
+ */
+export async function runAudited<T>(context: AuditContext, fn: () => Promise<T>): Promise<T> {
+  if (!config.enabled) {
+    return fn();
+  }
+
+  try {
+    await enqueue(async () => {
+      if (!initialized) await loadChainHead();
+    });
+  } catch (error) {
+    throw new Error(`Audit log unavailable, ${context.tool} was not run: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const startTime = Date.now();
+  let result: T | undefined;
+  let failure: unknown;
+  try {
+    result = await auditStorage.run(context, fn);
+    const errorResult = result as { isError?: boolean; content?: Array<{ text?: string }> } | undefined;
+    if (errorResult?.isError && !context.outcome) {
+      context.outcome = 'error';
+      context.error ??= errorResult.content?.[0]?.text;
+    }
+  } catch (error) {
+    failure = error;
+    context.outcome = 'error';
+    context.error = error instanceof Error ? error.message : String(error);
+  }
+
+  const durationMs = Date.now() - startTime;
+  try {
+    await enqueue(() => appendEntry(context, durationMs));
+  } catch (error) {
+    // Reload the head before the next entry; a partly written line is then recorded as a chain break
+    initialized = false;
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Failed to write audit log entry:', message);
+    throw new Error(`${context.tool} ran, but its audit log entry could not be written, so its result is withheld: ${message}`);
+  }
+
+  if (failure !== undefined) throw failure;
+  return result as T;
+}
+
+export function recordAffectedDocuments(affected: AffectedDocuments): void {
+  const context = auditStorage.getStore();
+  if (context) {
+    context.affected = affected;
+  }
+}
+
+/**
+ * Marks the current tool call as failed. Called from logError, which every
+ * handler uses in its catch block.
+ */
+export function recordAuditError(message: string): void {
+  const context = auditStorage.getStore();
+  if (context && !context.outcome) {
+    context.outcome = 'error';
+    context.error = message;
+  }
+}
+
+/**
+ * Resolves once all queued entries are written and logs the chain head, so
+ * a later verification can tell if entries were removed from the end (used
+ * on shutdown)
+ */
+export async function flushAuditLog(): Promise<void> {
+  await writeQueue;
+  if (config.enabled && initialized && lastSeq > 0) {
+    logAnchor('shutdown');
+  }
+}
+
+function logAnchor(reason: string): void {
+  console.error(`Audit log anchor (${reason}): seq ${lastSeq} hash ${lastHash} — verify with --anchor ${lastSeq}:${lastHash}`);
+}
+
+function redactArgs(value: unknown, key?: string): unknown {
+  if (key && SECRET_KEY_PATTERN.test(key)) {
+    return '[REDACTED]';
+  }
+  if (key === 'uri' && typeof value === 'string') {
+    return redactUri(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactArgs(item));
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [nestedKey, nested] of Object.entries(value as Record<string, unknown>)) {
+      result[nestedKey] = redactArgs(nested, nestedKey);
+    }
+    return result;
+  }
+  return value;
+}
+
+export function hashEntry(entry: Omit<AuditEntry, 'hash'>, key?: string): string {
+  const hash = entry.alg === KEYED_ALGORITHM && key ? createHmac('sha256', key) : createHash('sha256');
+  return hash.update(JSON.stringify(entry)).digest('hex');
+}
+
+// The last sequence number keeps names unique when rotations happen within the same millisecond
+function rotatedFileName(file: string, date: Date, seq: number, suffix = ''): string {
+  const ext = path.extname(file);
+  const stamp = date.toISOString().replace(/[:.]/g, '-');
+  return path.join(path.dirname(file), `${path.basename(file, ext)}-${stamp}-${seq}${suffix}${ext}`);
+}
+
+async function readLines(file: string): Promise<string[]> {
+  const content = await fs.readFile(file, 'utf8');
+  return content.split('\n').filter((line) => line.trim() !== '');
+}
+
+async function listRotatedFiles(file: string): Promise<string[]> {
+  const dir = path.dirname(file);
+  const ext = path.extname(file);
+  const prefix = `${path.basename(file, ext)}-`;
+  try {
+    return (await fs.readdir(dir))
+      .filter((name) => name.startsWith(prefix) && name.endsWith(ext))
+      .sort()
+      .map((name) => path.join(dir, name));
+  } catch {
+    return [];
+  }
+}
+
+function parseEntry(line: string): AuditEntry | undefined {
+  try {
+    const entry = JSON.parse(line) as AuditEntry;
+    return typeof entry?.seq === 'number' && typeof entry.hash === 'string' ? entry : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Picks up the chain where the last run left off: the active file's last
+ * entry, or the newest rotated file when the active one doesn't exist yet.
+ * When the last lines can't be read (a crash mid-write, or tampering), the
+ * file is set aside and the new one starts with an entry recording the break.
+ */
+async function loadChainHead(): Promise<void> {
+  await fs.mkdir(path.dirname(config.file), { recursive: true });
+
+  lastHash = GENESIS_HASH;
+  lastSeq = 0;
+  fileSize = 0;
+  fileStartedAt = undefined;
+
+  let source: string | undefined = config.file;
+  try {
+    fileSize = (await fs.stat(config.file)).size;
+  } catch {
+    source = (await listRotatedFiles(config.file)).pop();
+  }
+
+  if (source) {
+    const lines = await readLines(source);
+    let lastReadable = lines.length - 1;
+    while (lastReadable >= 0 && !parseEntry(lines[lastReadable])) lastReadable--;
+
+    if (lastReadable >= 0) {
+      const last = parseEntry(lines[lastReadable]) as AuditEntry;
+      lastHash = last.hash;
+      lastSeq = last.seq;
+    }
+
+    if (lastReadable < lines.length - 1) {
+      chainBreak = `${lines.length - 1 - lastReadable} unreadable line(s) at the end of ${path.basename(source)}`;
+      if (source === config.file) {
+        const setAside = rotatedFileName(config.file, new Date(), lastSeq, '-broken');
+        await fs.rename(config.file, setAside);
+        chainBreak += `, moved to ${path.basename(setAside)}`;
+        fileSize = 0;
+      }
+      console.error(`Audit log chain broken: ${chainBreak}`);
+    } else if (source === config.file && lines.length > 0) {
+      fileStartedAt = Date.parse(parseEntry(lines[0])?.timestamp ?? '') || undefined;
+    }
+  }
+
+  initialized = true;
+}
+
+async function rotateIfNeeded(now: number, entrySize: number): Promise<void> {
+  if (fileSize === 0) return;
+
+  const tooLarge = fileSize + entrySize > config.maxSizeMB * 1024 * 1024;
+  const tooOld = fileStartedAt !== undefined && now - fileStartedAt > config.maxAgeDays * 24 * 60 * 60 * 1000;
+  if (!tooLarge && !tooOld) return;
+
+  // The chain continues into the new file: its first entry links to the
+  // last entry of the rotated one
+  await fs.rename(config.file, rotatedFileName(config.file, new Date(now), lastSeq));
+  fileSize = 0;
+  fileStartedAt = undefined;
+  logAnchor('rotation');
+  await pruneRotatedFiles(now);
+}
+
+// Rotated files are never written again, so their modification time is when they were rotated
+async function pruneRotatedFiles(now: number): Promise<void> {
+  const cutoff = now - config.retentionDays * 24 * 60 * 60 * 1000;
+  for (const file of await listRotatedFiles(config.file)) {
+    try {
+      if ((await fs.stat(file)).mtimeMs < cutoff) {
+        await fs.unlink(file);
+        console.error(`Audit log file ${path.basename(file)} removed after ${config.retentionDays} days`);
+      }
+    } catch (error) {
+      console.error(`Failed to remove audit log file ${file}:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+async function appendEntry(context: AuditContext, durationMs: number): Promise<void> {
+  if (!initialized) {
+    await loadChainHead();
+  }
+
+  if (chainBreak) {
+    await writeEntry({
+      tool: 'auditLog',
+      args: { event: 'chainBreak', reason: chainBreak },
+      serverMode: context.serverMode,
+      outcome: 'error',
+      error: `Audit log chain broken: ${chainBreak}`,
+      durationMs: 0,
+    });
+    chainBreak = undefined;
+  }
+
+  await writeEntry({
+    tool: context.tool,
+    args: redactArgs(context.args),
+    serverMode: context.serverMode,
+    connection: context.connection,
+    connectionMode: context.connectionMode,
+    database: context.database,
+    outcome: context.outcome || 'success',
+    error: context.error,
+    affected: context.affected,
+    durationMs,
+  });
+}
+
+async function writeEntry(fields: Omit<AuditEntry, 'seq' | 'timestamp' | 'prevHash' | 'alg' | 'hash'>): Promise<void> {
+  const now = Date.now();
+  const entry: Omit<AuditEntry, 'hash'> = {
+    seq: lastSeq + 1,
+    timestamp: new Date(now).toISOString(),
+    ...fields,
+    prevHash: lastHash,
+    alg: config.key ? KEYED_ALGORITHM : undefined,
+  };
+  // Hash the serialized form so verification sees exactly what was written
+  const normalized = JSON.parse(JSON.stringify(entry)) as Omit<AuditEntry, 'hash'>;
+  const hash = hashEntry(normalized, config.key);
+  const line = `${JSON.stringify({ ...normalized, hash })}\n`;
+
+  await rotateIfNeeded(now, Buffer.byteLength(line));
+  await fs.appendFile(config.file, line);
+
+  lastHash = hash;
+  lastSeq = entry.seq;
+  fileSize += Buffer.byteLength(line);
+  fileStartedAt ??= now;
+}
+
+export interface AuditAnchor {
+  seq: number;
+  hash: string;
+}
+
+export interface AuditVerificationOptions {
+  // Required to check HMAC-keyed entries; with a key, unkeyed entries after a keyed one are rejected
+  key?: string;
+  // Chain heads logged at rotation or shutdown; the chain must contain each of them
+  anchors?: AuditAnchor[];
+}
+
+export interface AuditVerificationResult {
+  valid: boolean;
+  files: string[];
+  entries: number;
+  firstSeq?: number;
+  lastSeq?: number;
+  // First entry with an HMAC; earlier entries were written before a key was configured
+  keyedFromSeq?: number;
+  error?: {
+    file: string;
+    line: number;
+    message: string;
+  };
+}
+
+async function listAuditFiles(target: string): Promise<string[]> {
+  const stat = await fs.stat(target);
+  if (!stat.isDirectory()) {
+    return [target];
+  }
+
+  const files = (await fs.readdir(target)).filter((name) => name.endsWith('.jsonl')).map((name) => path.join(target, name));
+
+  // Order by each file's first sequence number rather than by name, so the
+  // active file lands after its rotated predecessors
+  const withSeq = await Promise.all(
+    files.map(async (file) => {
+      const [first] = await readLines(file);
+      return { file, seq: (first && parseEntry(first)?.seq) || Number.MAX_SAFE_INTEGER };
+    })
+  );
+  return withSeq.sort((a, b) => a.seq - b.seq).map(({ file }) => file);
+}
+
+/**
+ * Verifies the hash chain of a single audit file or of every .jsonl file in a
+ * directory (checked as one continuous chain). A chain that doesn't start at
+ * sequence 1 is accepted from its first entry, since earlier files may have
+ * been archived or pruned. Anchors catch entries removed from the end.
+ */
+export async function verifyAuditLog(target: string, options: AuditVerificationOptions = {}): Promise<AuditVerificationResult> {
+  const files = await listAuditFiles(target);
+  const result: AuditVerificationResult = { valid: true, files, entries: 0 };
+  const anchors = new Map((options.anchors ?? []).map((anchor) => [anchor.seq, anchor.hash]));
+
+  let expectedPrevHash: string | undefined;
+  let expectedSeq: number | undefined;
+
+  for (const file of files) {
+    const lines = (await fs.readFile(file, 'utf8')).split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      if (lines[i].trim() === '') continue;
+      const fail = (message: string): AuditVerificationResult => ({
+        ...result,
+        valid: false,
+        error: { file, line: i + 1, message },
+      });
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(lines[i]) as AuditEntry;
+      } catch {
+        return fail('Line is not valid JSON');
+      }
+
+      const { hash, ...rest } = entry;
+      if (entry.alg === KEYED_ALGORITHM) {
+        if (!options.key) {
+          return fail(`Entry ${entry.seq} is keyed; set MONGO_SCOUT_AUDIT_KEY to verify it`);
+        }
+        result.keyedFromSeq ??= entry.seq;
+      } else if (options.key && result.keyedFromSeq !== undefined) {
+        return fail(`Entry ${entry.seq} is not keyed although earlier entries are (rewritten without the key)`);
+      }
+      if (hashEntry(rest, options.key) !== hash) {
+        return fail(`Entry ${entry.seq} has been modified (hash mismatch)`);
+      }
+      if (anchors.has(entry.seq) && anchors.get(entry.seq) !== hash) {
+        return fail(`Entry ${entry.seq} does not match its anchor`);
+      }
+      if (expectedSeq === undefined) {
+        if (entry.seq === 1 && entry.prevHash !== GENESIS_HASH) {
+          return fail('First entry does not link to the genesis hash');
+        }
+        result.firstSeq = entry.seq;
+      } else {
+        if (entry.seq !== expectedSeq) {
+          return fail(`Expected entry ${expectedSeq} but found ${entry.seq} (entries missing or reordered)`);
+        }
+        if (entry.prevHash !== expectedPrevHash) {
+          return fail(`Entry ${entry.seq} does not link to the previous entry`);
+        }
+      }
+
+      expectedSeq = entry.seq + 1;
+      expectedPrevHash = hash;
+      result.lastSeq = entry.seq;
+      result.entries++;
+    }
+  }
+
+  const missing = [...anchors.keys()].filter((seq) => result.lastSeq === undefined || seq > result.lastSeq);
+  if (missing.length > 0) {
+    return {
+      ...result,
+      valid: false,
+      error: {
+        file: files[files.length - 1] ?? target,
+        line: 0,
+        message: `Log ends at entry ${result.lastSeq ?? 0} but was anchored at entry ${Math.max(...missing)} (entries removed from the end)`,
+      },
+    };
+  }
+  if (options.key && result.entries > 0 && result.keyedFromSeq === undefined) {
+    return {
+      ...result,
+      valid: false,
+      error: { file: files[files.length - 1], line: 0, message: 'No entry is keyed; the log was not written with this key' },
+    };
+  }
+
+  return result;
+}
@@ -0,0 +1,144 @@
+/**
+ * Two-phase confirmation for destructive tools. The first call returns a
+ * preview and a signed token bound to the exact arguments and target; only a
+ * second call with the same arguments and that token executes the change.
+ */
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { BSON } from 'mongodb';
+import type { ToolTarget } from '../server/connections.js';
+import { formatJson } from './ejson.js';
+
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+// Per-process secret: tokens don't survive a restart, which is fine for a five minute window
+const secret = randomBytes(32);
+
+// Nonces of consumed tokens, kept until the token would have expired anyway
+const usedNonces = new Map<string, number>();
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object' && value.constructor === Object) {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Hashes everything that decides what the call changes: the arguments (minus
+ * the token itself) and the resolved connection and database. Canonical EJSON
+ * keeps BSON types apart, so an ObjectId and its hex string don't collide.
+ */
+function bindingHash(tool: string, args: Record<string, unknown>, target: ToolTarget): string {
+  const { confirmationToken: _token, ...boundArgs } = args;
+  const binding = { tool, args: boundArgs, connection: target.connection, database: target.dbName };
+  return createHash('sha256')
+    .update(BSON.EJSON.stringify(canonicalize(binding) as BSON.Document, { relaxed: false }))
+    .digest('hex');
+}
+
+function sign(nonce: string, expiresAt: number, hash: string): string {
+  return createHmac('sha256', secret).update(`${nonce}.${expiresAt}.${hash}`).digest('base64url');
+}
+
+function pruneUsedNonces(now: number): void {
+  for (const [nonce, expiresAt] of usedNonces) {
+    if (expiresAt < now) usedNonces.delete(nonce);
+  }
+}
+
+export function issueConfirmationToken(
+  tool: string,
+  args: Record<string, unknown>,
+  target: ToolTarget
+): { token: string; expiresAt: string } {
+  const nonce = randomBytes(9).toString('base64url');
+  const expiresAt = Date.now() + CONFIRMATION_TTL_MS;
+  const signature = sign(nonce, expiresAt, bindingHash(tool, args, target));
+  return { token: `${nonce}.${expiresAt}.${signature}`, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+/**
+ * Checks a token without using it up. Tools call this before work that can
+ * still refuse the write (such as the undo journal limits), so a refusal
+ * doesn't cost the confirmation. Returns an error message when the call must
+ * not run.
+ */
+export function checkConfirmationToken(
+  tool: string,
+  args: Record<string, unknown>,
+  target: ToolTarget,
+  token: string
+): string | undefined {
+  const now = Date.now();
+  pruneUsedNonces(now);
+
+  const [nonce, expiresAtText, signature] = token.split('.');
+  const expiresAt = Number(expiresAtText);
+  if (!nonce || !signature || !Number.isFinite(expiresAt)) {
+    return 'Confirmation token is malformed. Call again without confirmationToken to get a new preview and token.';
+  }
+
+  const expected = Buffer.from(sign(nonce, expiresAt, bindingHash(tool, args, target)));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return `Confirmation token does not match these arguments. It is only valid for the exact ${tool} call it was issued for; call again without confirmationToken to preview the changed operation.`;
+  }
+  if (expiresAt < now) {
+    return 'Confirmation token has expired. Call again without confirmationToken to get a fresh preview and token.';
+  }
+  if (usedNonces.has(nonce)) {
+    return 'Confirmation token has already been used. Call again without confirmationToken to get a new preview and token.';
+  }
+  return undefined;
+}
+
+/**
+ * Checks and consumes a token. Returns an error message when the call must
+ * not run.
+ */
+export function consumeConfirmationToken(
+  tool: string,
+  args: Record<string, unknown>,
+  target: ToolTarget,
+  token: string
+): string | undefined {
+  const error = checkConfirmationToken(tool, args, target, token);
+  if (!error) {
+    usedNonces.set(token.split('.')[0], Number(token.split('.')[1]));
+  }
+  return error;
+}
+
+/**
+ * First-phase response: the preview plus a token for the identical call
+ */
+export function confirmationRequired(
+  tool: string,
+  args: Record<string, unknown>,
+  target: ToolTarget,
+  preview: Record<string, unknown>
+) {
+  const { token, expiresAt } = issueConfirmationToken(tool, args, target);
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: formatJson({
+          confirmationRequired: true,
+          operation: tool,
+          ...preview,
+          confirmationToken: token,
+          expiresAt,
+          message: `Review the preview. To execute, call ${tool} again with the same arguments plus confirmationToken. The token is single-use and expires in ${CONFIRMATION_TTL_MS / 60000} minutes.`,
+        }),
+      },
+    ],
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * Server-side cursor sessions for paged reads. find and aggregate keep the
+ * driver cursor open between calls and hand out an opaque id; getMore reads
+ * the next page from it. Idle sessions are closed after a timeout, and the
+ * least recently used one of an MCP session is closed when that MCP session
+ * has too many open. An MCP session's cursors are closed when it ends.
+ */
+import { randomBytes } from 'crypto';
+import type { AbstractCursor, Document } from 'mongodb';
+import type { CursorConfig } from '../types.js';
+import { formatPage } from './ejson.js';
+
+let config: CursorConfig = { maxOpen: 20, idleTimeoutMinutes: 10 };
+
+export function configureCursors(cursorConfig: CursorConfig): void {
+  config = cursorConfig;
+}
+
+export interface CursorSession {
+  id: string;
+  // The MCP session that opened the cursor; other sessions can't read it
+  owner: object;
+  tool: 'find' | 'aggregate';
+  collection: string;
+  database: string;
+  connection: string;
+  cursor: AbstractCursor<Document>;
+  pageSize: number;
+  // Applies the access policy and PII masking to every page
+  protect: (docs: Document[]) => Document[];
+  returned: number;
+  // Documents read from the cursor that didn't fit in a response; read before the cursor
+  pending: Document[];
+  createdAt: Date;
+  lastUsedAt: number;
+  busy: boolean;
+  timer?: NodeJS.Timeout;
+}
+
+export interface CursorPage {
+  documents: Document[];
+  exhausted: boolean;
+}
+
+const sessions = new Map<string, CursorSession>();
+
+function scheduleIdleClose(session: CursorSession): void {
+  if (session.timer) clearTimeout(session.timer);
+  session.lastUsedAt = Date.now();
+  session.timer = setTimeout(() => void closeCursorSession(session.id), config.idleTimeoutMinutes * 60 * 1000);
+  session.timer.unref();
+}
+
+/**
+ * Reads up to pageSize documents and reports whether the cursor has more
+ */
+export async function readPage(cursor: AbstractCursor<Document>, pageSize: number): Promise<CursorPage> {
+  const documents: Document[] = [];
+  while (documents.length < pageSize && (await cursor.hasNext())) {
+    documents.push((await cursor.next())!);
+  }
+  return { documents, exhausted: !(await cursor.hasNext()) };
+}
+
+/**
+ * Keeps a partly read cursor open and returns its id
+ */
+export async function openCursorSession(
+  init: Omit<CursorSession, 'id' | 'pending' | 'createdAt' | 'lastUsedAt' | 'busy' | 'timer'>
+): Promise<CursorSession> {
+  for (;;) {
+    const owned = sessionsOf(init.owner);
+    if (owned.length < config.maxOpen) break;
+    const [oldest] = owned.sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+    await closeCursorSession(oldest.id);
+  }
+
+  const session: CursorSession = {
+    ...init,
+    id: randomBytes(16).toString('base64url'),
+    pending: [],
+    createdAt: new Date(),
+    lastUsedAt: Date.now(),
+    busy: false,
+  };
+  sessions.set(session.id, session);
+  scheduleIdleClose(session);
+  return session;
+}
+
+function sessionsOf(owner: object): CursorSession[] {
+  return [...sessions.values()].filter((session) => session.owner === owner);
+}
+
+export function getCursorSession(id: string, owner: object): CursorSession | undefined {
+  const session = sessions.get(id);
+  return session && session.owner === owner ? session : undefined;
+}
+
+/**
+ * Reads the next page of an open session, starting with documents an earlier
+ * response had no room for. The session stays open until the page is
+ * formatted with formatCursorPage, which closes it once exhausted.
+ */
+export async function readNextPage(session: CursorSession, pageSize = session.pageSize): Promise<CursorPage> {
+  if (session.busy) {
+    throw new Error(`Cursor ${session.id} is already being read by another call`);
+  }
+
+  session.busy = true;
+  try {
+    const pending = session.pending.splice(0, pageSize);
+    const page = await readPage(session.cursor, pageSize - pending.length);
+    const documents = [...pending, ...page.documents];
+    session.returned += documents.length;
+    scheduleIdleClose(session);
+    return { documents, exhausted: session.pending.length === 0 && page.exhausted };
+  } finally {
+    session.busy = false;
+  }
+}
+
+/**
+ * Formats a page within the response budget. Documents the budget leaves out
+ * are pushed back onto the session, so the next getMore starts with them; for
+ * a first page whose cursor is already exhausted, a session is opened just to
+ * hold them. `session` is the open session, or for a first page a function
+ * that opens one. `render` builds the response from the first `count`
+ * documents and the session that stays open, if any. Closes the session once
+ * nothing is left to read.
+ */
+export async function formatCursorPage(
+  page: CursorPage,
+  session: CursorSession | (() => Promise<CursorSession>),
+  render: (count: number, openSession: CursorSession | undefined) => unknown
+): Promise<string> {
+  const open = typeof session === 'function' ? session : async () => session;
+  let current = typeof session === 'function' ? (page.exhausted ? undefined : await session()) : session;
+  let sent = page.documents.length;
+  for (;;) {
+    const remaining = current && (!page.exhausted || current.pending.length > 0) ? current : undefined;
+    const { text, count } = formatPage(page.documents.length, (count) => render(count, remaining), sent);
+    if (count >= sent) {
+      if (current && !remaining) {
+        await closeCursorSession(current.id);
+      }
+      return text;
+    }
+    current ??= await open();
+    current.pending.unshift(...page.documents.slice(count, sent));
+    current.returned -= sent - count;
+    sent = count;
+  }
+}
+
+export function cursorExpiresAt(session: CursorSession): string {
+  return new Date(session.lastUsedAt + config.idleTimeoutMinutes * 60 * 1000).toISOString();
+}
+
+export async function closeCursorSession(id: string): Promise<boolean> {
+  const session = sessions.get(id);
+  if (!session) {
+    return false;
+  }
+
+  sessions.delete(id);
+  if (session.timer) clearTimeout(session.timer);
+  try {
+    await session.cursor.close();
+  } catch (error) {
+    console.error(`Failed to close cursor ${id}:`, error instanceof Error ? error.message : String(error));
+  }
+  return true;
+}
+
+/**
+ * Closes the cursors an MCP session opened (used when it ends)
+ */
+export async function closeCursorsOf(owner: object): Promise<void> {
+  await Promise.all(sessionsOf(owner).map((session) => closeCursorSession(session.id)));
+}
+
+/**
+ * Closes every open cursor (used on shutdown)
+ */
+export async function closeAllCursors(): Promise<void> {
+  await Promise.all([...sessions.keys()].map((id) => closeCursorSession(id)));
+}
@@ -0,0 +1,15 @@
+/**
+ * Date arguments of the monitoring, index and schema tools (since, until)
+ */
+
+/**
+ * Parses a date argument. Throws with the argument's name when the value
+ * isn't a date.
+ */
+export function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name} date '${value}'`);
+  }
+  return date;
+}
@@ -0,0 +1,118 @@
+/**
+ * Extended JSON handling for tool input and output. Arguments may carry typed
+ * values as EJSON ({"$oid": ...}, {"$date": ...}, {"$numberDecimal": ...}),
+ * and results are written back the same way so they survive a round trip.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { BSON, Long } from 'mongodb';
+import type { OutputFormat } from '../types.js';
+import { fitPageToBudget, fitToBudget } from './response-budget.js';
+
+export const OUTPUT_FORMATS = ['relaxed', 'canonical', 'json'] as const;
+
+const outputFormatStorage = new AsyncLocalStorage<OutputFormat>();
+
+/**
+ * Converts EJSON wrappers anywhere in a value into BSON values. Invalid
+ * wrappers (e.g. a malformed $oid) throw.
+ */
+export function parseExtendedJson<T>(value: T): T {
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  // Canonical parsing keeps explicit $numberLong/$numberInt/$numberDouble
+  // wrappers typed (relaxed parsing rounds large longs); plain numbers are
+  // put back afterwards so handlers keep receiving JS numbers
+  const parsed = BSON.EJSON.deserialize(value as BSON.Document, { relaxed: false });
+  return restorePlainNumbers(value, parsed) as T;
+}
+
+function restorePlainNumbers(raw: unknown, parsed: unknown): unknown {
+  if (typeof raw === 'number') {
+    return raw;
+  }
+  if (Array.isArray(raw) && Array.isArray(parsed)) {
+    return parsed.map((item, index) => restorePlainNumbers(raw[index], item));
+  }
+  if (raw && typeof raw === 'object' && parsed && typeof parsed === 'object' && parsed.constructor === Object) {
+    const result = parsed as Record<string, unknown>;
+    for (const key of Object.keys(result)) {
+      result[key] = restorePlainNumbers((raw as Record<string, unknown>)[key], result[key]);
+    }
+  }
+  return parsed;
+}
+
+/**
+ * True for values that serialize to EJSON wrappers rather than plain JSON:
+ * BSON types, dates and regular expressions
+ */
+export function isBsonValue(value: unknown): boolean {
+  return (
+    value instanceof Date ||
+    value instanceof RegExp ||
+    (!!value && typeof value === 'object' && '_bsontype' in value)
+  );
+}
+
+/**
+ * Runs a tool call with the output format requested for it
+ */
+export function runWithOutputFormat<T>(format: OutputFormat | undefined, fn: () => T): T {
+  return outputFormatStorage.run(format || 'relaxed', fn);
+}
+
+export function getOutputFormat(): OutputFormat {
+  return outputFormatStorage.getStore() || 'relaxed';
+}
+
+/**
+ * Serializes a value in the current call's output format. Unlike
+ * EJSON.stringify this keeps JSON semantics for everything else, so undefined
+ * fields are still omitted.
+ */
+export function stringifyExtendedJson(value: unknown, space = 2): string {
+  const format = getOutputFormat();
+  if (format === 'json') {
+    return JSON.stringify(value, null, space);
+  }
+
+  const relaxed = format === 'relaxed';
+  return JSON.stringify(
+    value,
+    function (this: Record<string, unknown>, key: string, serialized: unknown) {
+      // The holder still has the original value; `serialized` is already toJSON()'d
+      const raw = this[key];
+      if (raw instanceof Long) {
+        // Relaxed EJSON would round 64-bit values outside the safe integer range
+        const safe = raw.lessThanOrEqual(Number.MAX_SAFE_INTEGER) && raw.greaterThanOrEqual(Number.MIN_SAFE_INTEGER);
+        return BSON.EJSON.serialize(raw, { relaxed: relaxed && safe });
+      }
+      if (isBsonValue(raw) || (!relaxed && typeof raw === 'number')) {
+        return BSON.EJSON.serialize(raw, { relaxed });
+      }
+      return serialized;
+    },
+    space
+  );
+}
+
+/**
+ * Serializes a tool result in the current call's output format, trimmed to
+ * the call's response budget
+ */
+export function formatJson(value: unknown, space = 2): string {
+  return fitToBudget(value, (fitted) => stringifyExtendedJson(fitted, space));
+}
+
+/**
+ * Serializes one page of documents like formatJson. `build` renders the page
+ * with its first `count` documents; see fitPageToBudget.
+ */
+export function formatPage(
+  total: number,
+  build: (count: number) => unknown,
+  start = total
+): { text: string; count: number } {
+  return fitPageToBudget(total, build, (fitted) => stringifyExtendedJson(fitted), start);
+}
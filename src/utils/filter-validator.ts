@@ -44,30 +44,3 @@ export function validateFilter(filter: Record<string, any>): FilterValidationRes
     warning
   };
 }
-
-/**
- * Checks if a filter should be blocked based on safety settings
- */
-export function shouldBlockFilter(
-  filter: Record<string, any>,
-  allowEmptyFilter: boolean = false,
-  operation?: string
-): { blocked: boolean; reason?: string } {
-  const validation = validateFilter(filter);
-
-  if (validation.isEmpty && !allowEmptyFilter) {
-    const operationName = operation || 'operation';
-    return {
-      blocked: true,
-      reason: `⚠ Operation blocked for safety
-
-Filter: {} (empty - matches ALL documents)
-
-To preview impact: Add {dryRun: true}
-To proceed anyway: Add {allowEmptyFilter: true}
-Recommended: Use preview${operationName.charAt(0).toUpperCase() + operationName.slice(1)}() first`
-    };
-  }
-
-  return { blocked: false };
-}
@@ -0,0 +1,252 @@
+/**
+ * Index proposals for query shapes. Keys follow the equality, sort, range
+ * rule: fields matched exactly come first, then the sort, then fields
+ * matched by range, so one index serves the filter and the sort order.
+ * Existing indexes are checked for redundancy against each other.
+ */
+import { BSON, type Document } from 'mongodb';
+import type { ShapeStats } from './query-shapes.js';
+
+export type IndexKey = Record<string, number>;
+
+export interface ExistingIndex {
+  name: string;
+  key: Document;
+  unique?: boolean;
+  sparse?: boolean;
+  hidden?: boolean;
+  partialFilterExpression?: Document;
+  expireAfterSeconds?: number;
+  collation?: Document;
+  [option: string]: unknown;
+}
+
+export interface IndexOverlap {
+  coveredBy?: string;
+  replaces?: string[];
+  overlapsWith?: string[];
+}
+
+export interface ClassifiedFilter {
+  equality: string[];
+  range: string[];
+  unsupported: string[];
+}
+
+const EQUALITY_OPERATORS = new Set(['$eq', '$in']);
+const RANGE_OPERATORS = new Set(['$gt', '$gte', '$lt', '$lte', '$ne', '$nin', '$regex', '$exists', '$not', '$elemMatch', '$all', '$type', '$size', '$mod']);
+// A compound index holds at most 32 fields
+const MAX_KEY_FIELDS = 32;
+// Per-entry overhead of an index key besides the indexed values: the record id and key framing
+const ENTRY_OVERHEAD_BYTES = 16;
+// Documents examined per document returned before a query counts as inefficient
+const EXAMINED_RATIO_THRESHOLD = 10;
+const MIN_EXAMINED_DOCS = 100;
+// Options that change which documents or comparisons an index serves
+const MATCHING_OPTIONS = ['collation', 'partialFilterExpression', 'sparse'] as const;
+// Index fields that are not options
+const DESCRIPTIVE_FIELDS = new Set(['v', 'key', 'name', 'ns', 'background']);
+
+function addField(fields: string[], field: string): void {
+  if (!fields.includes(field)) fields.push(field);
+}
+
+/**
+ * Splits the fields of a (normalized) filter into equality and range
+ * matches. Clauses an index can't serve as one key, such as $or, $text
+ * and $expr, are listed as unsupported.
+ */
+export function classifyFilter(filter: Document, result: ClassifiedFilter = { equality: [], range: [], unsupported: [] }): ClassifiedFilter {
+  for (const [key, value] of Object.entries(filter)) {
+    if (key === '$and' && Array.isArray(value)) {
+      for (const clause of value) classifyFilter(clause as Document, result);
+    } else if (key.startsWith('$')) {
+      addField(result.unsupported, key);
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const operators = Object.keys(value);
+      if (operators.every((operator) => EQUALITY_OPERATORS.has(operator))) {
+        addField(result.equality, key);
+      } else if (operators.every((operator) => EQUALITY_OPERATORS.has(operator) || RANGE_OPERATORS.has(operator) || operator === '$options')) {
+        addField(result.range, key);
+      } else {
+        addField(result.unsupported, key);
+      }
+    } else {
+      addField(result.equality, key);
+    }
+  }
+  return result;
+}
+
+/**
+ * The equality, sort, range key for a query shape, or undefined when the
+ * shape filters and sorts on nothing an index could serve
+ */
+export function proposeIndexKey(shape: Pick<ShapeStats, 'filter' | 'sort'>): IndexKey | undefined {
+  const { equality, range } = classifyFilter(shape.filter);
+  const key: IndexKey = {};
+  for (const field of equality) key[field] = 1;
+  for (const [field, direction] of Object.entries(shape.sort ?? {})) {
+    if (!(field in key)) key[field] = direction < 0 ? -1 : 1;
+  }
+  for (const field of range) {
+    if (!(field in key)) key[field] = 1;
+  }
+
+  const fields = Object.keys(key);
+  // Lookups by _id alone always use the _id index
+  if (fields.length === 0 || (fields.length === 1 && fields[0] === '_id')) return undefined;
+  return Object.fromEntries(Object.entries(key).slice(0, MAX_KEY_FIELDS));
+}
+
+/**
+ * Why a shape needs a better index, or an empty list when its plans look fine
+ */
+export function inefficiencies(shape: ShapeStats): string[] {
+  const reasons: string[] = [];
+  if (shape.collectionScans > 0) reasons.push(`COLLSCAN in ${shape.collectionScans} of ${shape.count} runs`);
+  if (shape.inMemorySorts > 0) reasons.push(`in-memory SORT in ${shape.inMemorySorts} of ${shape.count} runs`);
+  const ratio = shape.docsExamined / Math.max(shape.returned, 1);
+  if (shape.collectionScans === 0 && shape.docsExamined >= MIN_EXAMINED_DOCS && ratio > EXAMINED_RATIO_THRESHOLD) {
+    reasons.push(`examines ${Math.round(ratio)} documents per document returned`);
+  }
+  return reasons;
+}
+
+/**
+ * Whether `prefix` lists the same fields as the start of `key`, in the same
+ * directions or all reversed (an index can be walked backwards)
+ */
+export function isKeyPrefix(prefix: Document, key: Document): boolean {
+  const prefixEntries = Object.entries(prefix);
+  const keyEntries = Object.entries(key);
+  if (prefixEntries.length > keyEntries.length) return false;
+
+  const sameFields = prefixEntries.every(([field], i) => keyEntries[i][0] === field);
+  if (!sameFields) return false;
+  const forward = prefixEntries.every(([, direction], i) => keyEntries[i][1] === direction);
+  const backward = prefixEntries.every(([, direction], i) => typeof direction === 'number' && keyEntries[i][1] === -direction);
+  return forward || backward;
+}
+
+/**
+ * Relates a proposed key to the existing indexes: an index that already
+ * starts with the key covers it, indexes the key starts with become
+ * redundant once it exists, and indexes on the same leading field overlap
+ */
+export function compareWithIndexes(key: IndexKey, indexes: ExistingIndex[]): IndexOverlap {
+  const overlap: IndexOverlap = {};
+  const leadingField = Object.keys(key)[0];
+
+  for (const index of indexes) {
+    // Partial and hidden indexes can't be relied on for every query of the shape
+    const usable = !index.hidden && !index.partialFilterExpression && !index.sparse;
+    if (usable && isKeyPrefix(key, index.key)) {
+      overlap.coveredBy ??= index.name;
+    } else if (index.name !== '_id_' && isKeyPrefix(index.key, key)) {
+      // Unique and TTL indexes enforce something besides speed and are kept
+      if (!index.unique && index.expireAfterSeconds === undefined) {
+        (overlap.replaces ??= []).push(index.name);
+      } else {
+        (overlap.overlapsWith ??= []).push(index.name);
+      }
+    } else if (Object.keys(index.key)[0] === leadingField) {
+      (overlap.overlapsWith ??= []).push(index.name);
+    }
+  }
+  return overlap;
+}
+
+function valuesAt(value: unknown, path: string[]): unknown[] {
+  if (path.length === 0) return [value];
+  if (Array.isArray(value)) return value.flatMap((item) => valuesAt(item, path));
+  if (!value || typeof value !== 'object') return [];
+  return valuesAt((value as Document)[path[0]], path.slice(1));
+}
+
+/**
+ * Average size in bytes of one document's entries in an index on `key`,
+ * from sampled documents. Array fields add an entry per element.
+ */
+export function estimateEntryBytes(documents: Document[], key: IndexKey): number {
+  if (documents.length === 0) return ENTRY_OVERHEAD_BYTES;
+
+  let total = 0;
+  for (const doc of documents) {
+    let entries = 1;
+    let keyBytes = 0;
+    for (const field of Object.keys(key)) {
+      const values = valuesAt(doc, field.split('.'));
+      entries = Math.max(entries, values.length);
+      // An empty BSON document takes 5 bytes and each element one more for its (empty) name
+      const average = values.length > 0
+        ? values.reduce<number>((sum, value) => sum + BSON.calculateObjectSize({ '': value }) - 6, 0) / values.length
+        : 1;
+      keyBytes += average;
+    }
+    total += entries * (keyBytes + ENTRY_OVERHEAD_BYTES);
+  }
+  return total / documents.length;
+}
+
+function sameOption(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * The options an index was created with, leaving out its name and key
+ */
+export function indexOptions(index: ExistingIndex): Document {
+  return Object.fromEntries(Object.entries(index).filter(([field]) => !DESCRIPTIVE_FIELDS.has(field)));
+}
+
+export function isSameKey(a: Document, b: Document): boolean {
+  return JSON.stringify(Object.entries(a)) === JSON.stringify(Object.entries(b));
+}
+
+/**
+ * Pairs each index with a longer index that starts with its key and serves
+ * the same documents, making it redundant. Unique and TTL indexes enforce
+ * something besides speed and are never reported.
+ */
+export function findPrefixRedundant(indexes: ExistingIndex[]): Array<{ index: ExistingIndex; coveredBy: ExistingIndex }> {
+  const redundant: Array<{ index: ExistingIndex; coveredBy: ExistingIndex }> = [];
+  for (const index of indexes) {
+    if (index.name === '_id_' || index.unique || index.expireAfterSeconds !== undefined) continue;
+
+    const coveredBy = indexes.find(
+      (other) =>
+        other !== index &&
+        !other.hidden &&
+        Object.keys(other.key).length > Object.keys(index.key).length &&
+        isKeyPrefix(index.key, other.key) &&
+        MATCHING_OPTIONS.every((option) => sameOption(index[option], other[option]))
+    );
+    if (coveredBy) redundant.push({ index, coveredBy });
+  }
+  return redundant;
+}
+
+/**
+ * Groups indexes that share a key pattern, which MongoDB only allows when
+ * their options differ, with the options that set them apart
+ */
+export function findDuplicateKeys(indexes: ExistingIndex[]): Array<{ indexes: ExistingIndex[]; differingOptions: string[] }> {
+  const groups: ExistingIndex[][] = [];
+  for (const index of indexes) {
+    const group = groups.find(([first]) => isSameKey(first.key, index.key));
+    if (group) {
+      group.push(index);
+    } else {
+      groups.push([index]);
+    }
+  }
+
+  return groups
+    .filter((group) => group.length > 1)
+    .map((group) => {
+      const options = new Set(group.flatMap((index) => Object.keys(indexOptions(index))));
+      const differingOptions = [...options].filter((option) => group.some((index) => !sameOption(index[option], group[0][option])));
+      return { indexes: group, differingOptions };
+    });
+}
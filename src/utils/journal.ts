@@ -0,0 +1,234 @@
+/**
+ * Undo journal for write tools. Pre-images of the documents a write will
+ * touch are captured before it runs and stored in a capped collection in the
+ * same database, so the write can later be reverted exactly.
+ */
+import { BSON, ObjectId, type AnyBulkWriteOperation, type Db, type Document } from 'mongodb';
+import type { JournalConfig } from '../types.js';
+
+export const JOURNAL_COLLECTION = '_scout_journal';
+
+// MongoDB documents are limited to 16MB; leave room for the entry's own fields
+const MAX_ENTRY_BYTES = 15 * 1024 * 1024;
+
+let config: JournalConfig = { enabled: true, maxDocuments: 1000, maxSizeMB: 8, collectionSizeMB: 256 };
+
+export function configureJournal(journalConfig: JournalConfig): void {
+  config = journalConfig;
+}
+
+export class JournalLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JournalLimitError';
+  }
+}
+
+/**
+ * Pre-images captured before a write, committed to the journal once the
+ * write has succeeded
+ */
+export interface PendingJournal {
+  collection: string;
+  documents: Document[];
+  sizeBytes: number;
+}
+
+export interface JournalSummary {
+  id: string;
+  tool: string;
+  collection: string;
+  timestamp: Date;
+  documentCount: number;
+  createdCount: number;
+  sizeBytes: number;
+  undone: boolean;
+  undoneAt?: Date;
+}
+
+export interface UndoResult {
+  restored: number;
+  removed: number;
+}
+
+/**
+ * Reads the documents matching any of the filters. Throws JournalLimitError
+ * when they exceed the configured count or size, so the write is refused
+ * instead of running without a way back. Returns undefined when the journal
+ * is disabled.
+ */
+export async function captureJournal(
+  db: Db,
+  collection: string,
+  filters: Document[],
+  options: { single?: boolean } = {}
+): Promise<PendingJournal | undefined> {
+  if (!config.enabled) {
+    return undefined;
+  }
+
+  if (filters.length === 0) {
+    return { collection, documents: [], sizeBytes: 0 };
+  }
+
+  const query = filters.length === 1 ? filters[0] : { $or: filters };
+  const target = db.collection(collection);
+
+  if (!options.single) {
+    const count = await target.countDocuments(query);
+    if (count > config.maxDocuments) {
+      throw new JournalLimitError(
+        `Operation would change ${count.toLocaleString()} documents, more than the undo journal limit of ${config.maxDocuments.toLocaleString()}. ` +
+        'Narrow the filter and run it in smaller batches, or raise journal.maxDocuments in the config profile.'
+      );
+    }
+  }
+
+  const documents = await target.find(query).limit(options.single ? 1 : 0).toArray();
+  const sizeBytes = documents.reduce((sum, doc) => sum + BSON.calculateObjectSize(doc), 0);
+  const maxBytes = Math.min(config.maxSizeMB * 1024 * 1024, MAX_ENTRY_BYTES);
+  if (sizeBytes > maxBytes) {
+    throw new JournalLimitError(
+      `Operation would change ${(sizeBytes / 1024 / 1024).toFixed(1)}MB of documents, more than the undo journal limit of ${(maxBytes / 1024 / 1024).toFixed(1)}MB. ` +
+      'Narrow the filter and run it in smaller batches, or raise journal.maxSizeMB in the config profile.'
+    );
+  }
+
+  return { collection, documents, sizeBytes };
+}
+
+async function ensureJournalCollection(db: Db): Promise<void> {
+  try {
+    await db.createCollection(JOURNAL_COLLECTION, { capped: true, size: config.collectionSizeMB * 1024 * 1024 });
+  } catch (error) {
+    if ((error as { codeName?: string }).codeName !== 'NamespaceExists') {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Stores the captured pre-images together with the ids of documents the write
+ * created (inserts and upserts). Returns a note for the tool response; a
+ * failure here never fails the write that already happened.
+ */
+export async function commitJournal(
+  db: Db,
+  pending: PendingJournal | undefined,
+  tool: string,
+  createdIds: unknown[] = []
+): Promise<string> {
+  if (!pending) {
+    return '';
+  }
+
+  try {
+    await ensureJournalCollection(db);
+    const { insertedId } = await db.collection(JOURNAL_COLLECTION).insertOne({
+      type: 'operation',
+      tool,
+      collection: pending.collection,
+      timestamp: new Date(),
+      documents: pending.documents,
+      documentCount: pending.documents.length,
+      createdIds: createdIds.filter((id) => id !== undefined && id !== null),
+      sizeBytes: pending.sizeBytes,
+    });
+    return `\nUndo journal: ${insertedId.toHexString()} (revert with undoOperation)`;
+  } catch (error) {
+    console.error('Failed to write undo journal entry:', error instanceof Error ? error.message : String(error));
+    return '\n⚠ The undo journal entry could not be saved; this operation cannot be undone';
+  }
+}
+
+async function getUndoMarkers(db: Db, operationIds: ObjectId[]): Promise<Map<string, Date>> {
+  const markers = await db
+    .collection(JOURNAL_COLLECTION)
+    .find({ type: 'undo', operationId: { $in: operationIds } })
+    .toArray();
+  return new Map(markers.map((marker) => [String(marker.operationId), marker.timestamp as Date]));
+}
+
+export async function listJournal(db: Db, options: { collection?: string; limit: number }): Promise<JournalSummary[]> {
+  const query: Document = { type: 'operation' };
+  if (options.collection) {
+    query.collection = options.collection;
+  }
+
+  const entries = await db
+    .collection(JOURNAL_COLLECTION)
+    .find(query, { projection: { documents: 0 } })
+    .sort({ _id: -1 })
+    .limit(options.limit)
+    .toArray();
+  const undone = await getUndoMarkers(db, entries.map((entry) => entry._id));
+
+  return entries.map((entry) => ({
+    id: entry._id.toHexString(),
+    tool: entry.tool,
+    collection: entry.collection,
+    timestamp: entry.timestamp,
+    documentCount: entry.documentCount,
+    createdCount: (entry.createdIds as unknown[]).length,
+    sizeBytes: entry.sizeBytes,
+    undone: undone.has(String(entry._id)),
+    undoneAt: undone.get(String(entry._id)),
+  }));
+}
+
+export async function getJournalEntry(db: Db, id: string): Promise<Document | null> {
+  if (!ObjectId.isValid(id)) {
+    return null;
+  }
+  return db.collection(JOURNAL_COLLECTION).findOne({ _id: new ObjectId(id), type: 'operation' });
+}
+
+/**
+ * Restores the pre-images of a journaled operation and removes the documents
+ * it created. Refuses when the operation was already undone, or when later
+ * operations on the same collection are still in effect (unless forced),
+ * since restoring would silently discard their changes.
+ */
+export async function undoJournalEntry(db: Db, entry: Document, force: boolean): Promise<UndoResult> {
+  const journal = db.collection(JOURNAL_COLLECTION);
+
+  if (await journal.findOne({ type: 'undo', operationId: entry._id })) {
+    throw new Error(`Operation ${entry._id.toHexString()} has already been undone`);
+  }
+
+  if (!force) {
+    const later = await journal
+      .find({ type: 'operation', collection: entry.collection, _id: { $gt: entry._id } }, { projection: { tool: 1 } })
+      .toArray();
+    const undone = await getUndoMarkers(db, later.map((op) => op._id));
+    const pending = later.filter((op) => !undone.has(String(op._id)));
+    if (pending.length > 0) {
+      throw new Error(
+        `Later operations on '${entry.collection}' have not been undone: ` +
+        `${pending.map((op) => `${op._id.toHexString()} (${op.tool})`).join(', ')}. ` +
+        'Undo them first (newest first) or pass force: true to overwrite their changes.'
+      );
+    }
+  }
+
+  const documents = entry.documents as Document[];
+  const createdIds = entry.createdIds as Document['_id'][];
+  const operations: AnyBulkWriteOperation[] = [
+    ...documents.map((doc) => ({ replaceOne: { filter: { _id: doc._id }, replacement: doc, upsert: true } })),
+    ...createdIds.map((id) => ({ deleteOne: { filter: { _id: id } } })),
+  ];
+
+  if (operations.length > 0) {
+    await db.collection(entry.collection).bulkWrite(operations, { ordered: true });
+  }
+
+  await journal.insertOne({
+    type: 'undo',
+    operationId: entry._id,
+    timestamp: new Date(),
+    restored: documents.length,
+    removed: createdIds.length,
+  });
+
+  return { restored: documents.length, removed: createdIds.length };
+}
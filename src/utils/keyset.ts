@@ -0,0 +1,239 @@
+/**
+ * Keyset pagination for find. Instead of skipping, each page continues after
+ * the sort key of the previous page's last document, so pages stay stable
+ * while documents are inserted or deleted. The token carries the last
+ * document's sort key values, sealed with a per-process key so values that
+ * are masked in the results never show up in it.
+ */
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { BSON, type Document } from 'mongodb';
+import type { MongoFilter, MongoSort } from '../types.js';
+
+type SortKey = [field: string, direction: 1 | -1];
+
+// Per-process key: tokens stop working after a restart, like cursor sessions do
+const sealKey = randomBytes(32);
+
+/**
+ * BSON comparison order of the type brackets. Values only compare with $gt/$lt
+ * inside their own bracket, so paging across brackets needs a $type branch.
+ * Null also covers missing fields. Arrays sort by their elements and have no
+ * bracket of their own here.
+ */
+const TYPE_BRACKETS: { name: string; types: string[] }[] = [
+  { name: 'minKey', types: ['minKey'] },
+  { name: 'null', types: [] },
+  { name: 'number', types: ['double', 'int', 'long', 'decimal'] },
+  { name: 'string', types: ['string', 'symbol'] },
+  { name: 'object', types: ['object'] },
+  { name: 'binData', types: ['binData'] },
+  { name: 'objectId', types: ['objectId'] },
+  { name: 'bool', types: ['bool'] },
+  { name: 'date', types: ['date'] },
+  { name: 'timestamp', types: ['timestamp'] },
+  { name: 'regex', types: ['regex'] },
+  { name: 'maxKey', types: ['maxKey'] },
+];
+
+// Brackets where all values sort equal, so nothing is strictly after a value inside them
+const SINGLE_VALUE_BRACKETS = new Set(['minKey', 'null', 'maxKey']);
+
+const BSON_TYPE_BRACKETS: Record<string, string> = {
+  MinKey: 'minKey',
+  MaxKey: 'maxKey',
+  Int32: 'number',
+  Double: 'number',
+  Long: 'number',
+  Decimal128: 'number',
+  BSONSymbol: 'string',
+  Binary: 'binData',
+  ObjectId: 'objectId',
+  Timestamp: 'timestamp',
+  BSONRegExp: 'regex',
+};
+
+/**
+ * The sort used for keyset pages: the requested sort with _id appended as a
+ * tie-breaker, so every document has a unique position
+ */
+export function keysetSort(sort: MongoSort = {}): SortKey[] {
+  const keys = Object.entries(sort).map(([field, direction]): SortKey => [field, direction === -1 ? -1 : 1]);
+  if (!keys.some(([field]) => field === '_id')) {
+    keys.push(['_id', keys.length > 0 ? keys[keys.length - 1][1] : 1]);
+  }
+  return keys;
+}
+
+// Ties a token to the query it was issued for, so it can't be replayed against another one
+function queryHash(collection: string, query: MongoFilter, sort: SortKey[]): string {
+  return createHash('sha256')
+    .update(BSON.EJSON.stringify({ collection, query, sort }, { relaxed: false }))
+    .digest('base64url')
+    .slice(0, 16);
+}
+
+export function getPath(doc: Document, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Document)[key] : undefined),
+    doc
+  );
+}
+
+/**
+ * The bracket a sort value belongs to. Throws for values keyset paging can't
+ * continue after: arrays sort by one of their elements, and JavaScript code or
+ * DBRefs have no stable position to resume from.
+ */
+function typeBracket(field: string, value: unknown): number {
+  let name: string | undefined;
+  if (value === null || value === undefined) {
+    name = 'null';
+  } else if (typeof value === 'number' || typeof value === 'bigint') {
+    name = 'number';
+  } else if (typeof value === 'string') {
+    name = 'string';
+  } else if (typeof value === 'boolean') {
+    name = 'bool';
+  } else if (value instanceof Date) {
+    name = 'date';
+  } else if (value instanceof RegExp) {
+    name = 'regex';
+  } else if (typeof value === 'object' && !Array.isArray(value)) {
+    const bsonType = (value as { _bsontype?: string })._bsontype;
+    name = bsonType ? BSON_TYPE_BRACKETS[bsonType] : 'object';
+  }
+  if (!name) {
+    throw new Error(
+      `Keyset pagination can't continue after the value of sort field "${field}" (${Array.isArray(value) ? 'an array' : 'an unsupported type'}); use pagination: "cursor" for this sort`
+    );
+  }
+  return TYPE_BRACKETS.findIndex((bracket) => bracket.name === name);
+}
+
+// Like getPath, but stops at an array, whose sort position isn't a single value
+function sortValue(doc: Document, field: string): unknown {
+  let value: unknown = doc;
+  for (const key of field.split('.')) {
+    if (Array.isArray(value)) {
+      return value;
+    }
+    value = value && typeof value === 'object' ? (value as Document)[key] : undefined;
+  }
+  return value ?? null;
+}
+
+/**
+ * The sort key values of a document, taken before fields only projected for
+ * the token are stripped again
+ */
+export function sortKeyValues(sort: SortKey[], doc: Document): unknown[] {
+  return sort.map(([field]) => sortValue(doc, field));
+}
+
+export function encodeKeysetToken(collection: string, query: MongoFilter, sort: SortKey[], values: unknown[]): string {
+  sort.forEach(([field], index) => typeBracket(field, values[index]));
+  const payload = BSON.EJSON.stringify({ q: queryHash(collection, query, sort), v: values }, { relaxed: false });
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', sealKey, iv);
+  const sealed = Buffer.concat([cipher.update(payload, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), sealed]).toString('base64url');
+}
+
+/**
+ * Returns the sort key values a token continues after. Throws when the token
+ * is malformed or belongs to a different query or sort.
+ */
+export function decodeKeysetToken(token: string, collection: string, query: MongoFilter, sort: SortKey[]): unknown[] {
+  let payload: { q?: string; v?: unknown[] };
+  try {
+    const raw = Buffer.from(token, 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', sealKey, raw.subarray(0, 12));
+    decipher.setAuthTag(raw.subarray(12, 28));
+    const opened = Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]);
+    payload = BSON.EJSON.parse(opened.toString('utf8'), { relaxed: false });
+  } catch {
+    throw new Error('nextToken is malformed or was issued before the server restarted; start again without nextToken');
+  }
+  if (payload.q !== queryHash(collection, query, sort) || !Array.isArray(payload.v) || payload.v.length !== sort.length) {
+    throw new Error('nextToken was issued for a different collection, query or sort');
+  }
+  return payload.v;
+}
+
+/**
+ * Conditions matching the values of one sort field that come after `value` in
+ * the sort direction: greater inside its own type bracket, or any value of a
+ * bracket that sorts later (null also matching missing fields)
+ */
+function afterConditions(field: string, direction: 1 | -1, value: unknown): unknown[] {
+  const bracket = typeBracket(field, value);
+  const conditions: unknown[] = [];
+  if (!SINGLE_VALUE_BRACKETS.has(TYPE_BRACKETS[bracket].name)) {
+    conditions.push({ [direction === 1 ? '$gt' : '$lt']: value });
+  }
+  const later = TYPE_BRACKETS.filter((_, index) => (direction === 1 ? index > bracket : index < bracket));
+  const types = later.flatMap((entry) => entry.types);
+  if (types.length > 0) {
+    conditions.push({ $type: types });
+  }
+  if (later.some((entry) => entry.name === 'null')) {
+    conditions.push({ $eq: null });
+  }
+  return conditions;
+}
+
+/**
+ * Filter matching the documents that sort after the given key values:
+ * (a > x) or (a = x and b > y) or ..., where "greater" follows BSON type
+ * order so null, missing and mixed-type values don't end the pagination
+ */
+export function keysetFilter(sort: SortKey[], values: unknown[]): MongoFilter {
+  const branches = sort.flatMap(([field, direction], index) => {
+    const prefix: Document = {};
+    for (let i = 0; i < index; i++) {
+      prefix[sort[i][0]] = { $eq: values[i] };
+    }
+    return afterConditions(field, direction, values[index]).map((condition) => ({ ...prefix, [field]: condition }));
+  });
+  // Nothing sorts after the last value (e.g. MaxKey), and $or needs at least one branch
+  return branches.length > 0 ? { $or: branches } : { _id: { $exists: false } };
+}
+
+/**
+ * Makes sure the sort fields are returned by the projection, so the token can
+ * be built from the last document. Returns the fields that were added and
+ * must be stripped from the results again.
+ */
+export function projectSortFields(
+  projection: Record<string, unknown>,
+  sort: SortKey[]
+): { projection: Record<string, unknown>; added: string[] } {
+  const result = { ...projection };
+  const added: string[] = [];
+  const inclusive = Object.entries(projection).some(
+    ([field, value]) => field !== '_id' && value !== 0 && value !== false
+  );
+
+  for (const [field] of sort) {
+    if (inclusive && !(field in result) && field !== '_id') {
+      result[field] = 1;
+      added.push(field);
+    } else if (result[field] === 0 || result[field] === false) {
+      delete result[field];
+      added.push(field);
+    }
+  }
+  return { projection: result, added };
+}
+
+export function stripFields(docs: Document[], fields: string[]): void {
+  for (const doc of docs) {
+    for (const field of fields) {
+      const segments = field.split('.');
+      const parent = segments.length > 1 ? getPath(doc, segments.slice(0, -1).join('.')) : doc;
+      if (parent && typeof parent === 'object') {
+        delete (parent as Document)[segments[segments.length - 1]];
+      }
+    }
+  }
+}
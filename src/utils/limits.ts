@@ -0,0 +1,92 @@
+import type { MongoPipeline } from '../types.js';
+
+let allowedCollections: Set<string> | null = null;
+let maxDocuments: number | undefined;
+
+export function configureLimits(options: { allowedCollections?: string[]; maxDocuments?: number }): void {
+  allowedCollections = options.allowedCollections ? new Set(options.allowedCollections) : null;
+  maxDocuments = options.maxDocuments;
+}
+
+/**
+ * Returns true when no allow-list is configured or the collection is on it
+ */
+export function isCollectionAllowed(collection: string): boolean {
+  return allowedCollections === null || allowedCollections.has(collection);
+}
+
+/**
+ * Collects collections read by pipeline stages ($lookup, $graphLookup,
+ * $unionWith), including nested sub-pipelines
+ */
+export function getPipelineCollections(pipeline: MongoPipeline): string[] {
+  const collections: string[] = [];
+
+  for (const stage of pipeline) {
+    const lookup = (stage.$lookup || stage.$graphLookup) as Record<string, unknown> | undefined;
+    if (lookup) {
+      if (typeof lookup.from === 'string') collections.push(lookup.from);
+      if (Array.isArray(lookup.pipeline)) collections.push(...getPipelineCollections(lookup.pipeline as MongoPipeline));
+    }
+
+    const unionWith = stage.$unionWith as string | Record<string, unknown> | undefined;
+    if (typeof unionWith === 'string') {
+      collections.push(unionWith);
+    } else if (unionWith) {
+      if (typeof unionWith.coll === 'string') collections.push(unionWith.coll);
+      if (Array.isArray(unionWith.pipeline)) collections.push(...getPipelineCollections(unionWith.pipeline as MongoPipeline));
+    }
+
+    const facet = stage.$facet as Record<string, MongoPipeline> | undefined;
+    if (facet) {
+      Object.values(facet).forEach((facetPipeline) => collections.push(...getPipelineCollections(facetPipeline)));
+    }
+  }
+
+  return collections;
+}
+
+/**
+ * Collects collections written by $out and $merge stages. With `database`,
+ * only those written to that database (the default when a stage names none).
+ */
+export function getPipelineOutputCollections(pipeline: MongoPipeline, database?: string): string[] {
+  const collections: string[] = [];
+  const inDatabase = (target: Record<string, unknown>) => !database || target.db === undefined || target.db === database;
+
+  for (const stage of pipeline) {
+    const out = stage.$out as string | Record<string, unknown> | undefined;
+    if (typeof out === 'string') {
+      collections.push(out);
+    } else if (out && typeof out.coll === 'string' && inDatabase(out)) {
+      collections.push(out.coll);
+    }
+
+    const merge = stage.$merge as Record<string, unknown> | undefined;
+    if (merge) {
+      const into = merge.into as string | Record<string, unknown> | undefined;
+      if (typeof into === 'string') collections.push(into);
+      else if (into && typeof into.coll === 'string' && inDatabase(into)) collections.push(into.coll);
+    }
+  }
+
+  return collections;
+}
+
+/**
+ * Caps a requested document count at the configured maxDocuments.
+ * Returns undefined only when neither a request nor a cap exists.
+ */
+export function capDocumentLimit(requested?: number): number | undefined {
+  if (maxDocuments === undefined) {
+    return requested;
+  }
+  return requested === undefined ? maxDocuments : Math.min(requested, maxDocuments);
+}
+
+/**
+ * Appends a $limit stage when a maxDocuments cap is configured
+ */
+export function capPipeline(pipeline: MongoPipeline): MongoPipeline {
+  return maxDocuments === undefined ? pipeline : [...pipeline, { $limit: maxDocuments }];
+}
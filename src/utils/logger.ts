@@ -1,13 +1,23 @@
 import fs from 'fs/promises';
 import path from 'path';
+import type { LoggingConfig } from '../types.js';
+import { recordAuditError } from './audit-log.js';
 
-const LOG_DIR = process.env.LOG_DIR || './logs';
-const TOOL_LOG_FILE = path.join(LOG_DIR, 'tool-usage.log');
-const ERROR_LOG_FILE = path.join(LOG_DIR, 'error.log');
-const ENABLE_LOGGING = process.env.ENABLE_LOGGING === 'true';
+let LOG_DIR = process.env.LOG_DIR || './logs';
+let TOOL_LOG_FILE = path.join(LOG_DIR, 'tool-usage.log');
+let ERROR_LOG_FILE = path.join(LOG_DIR, 'error.log');
+let ENABLE_LOGGING = process.env.ENABLE_LOGGING === 'true';
 
 let logDirInitialized = false;
 
+export function configureLogging(config: LoggingConfig): void {
+  LOG_DIR = config.dir;
+  TOOL_LOG_FILE = path.join(LOG_DIR, 'tool-usage.log');
+  ERROR_LOG_FILE = path.join(LOG_DIR, 'error.log');
+  ENABLE_LOGGING = config.enabled;
+  logDirInitialized = false;
+}
+
 async function ensureLogDir(): Promise<void> {
   if (logDirInitialized) return;
 
@@ -37,6 +47,7 @@ export function logError(toolName: string, error: unknown, args?: unknown): void
   const errorStack = error instanceof Error ? error.stack : undefined;
 
   console.error(`Error in ${toolName}: ${errorMessage}`);
+  recordAuditError(errorMessage);
 
   if (!ENABLE_LOGGING) return;
 
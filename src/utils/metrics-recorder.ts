@@ -0,0 +1,409 @@
+/**
+ * Background metrics recorder. While recording, each connection's
+ * serverStatus is sampled at a fixed interval and the derived LiveMetric is
+ * kept in a ring buffer of `maxSamples` entries, so past windows can be
+ * queried without waiting. With a file configured, samples are also appended
+ * to it as JSON lines and reloaded when recording starts again. Listeners
+ * (alert rules) see every sample as it is recorded.
+ */
+import { promises as fs } from 'fs';
+import type { MongoClient } from 'mongodb';
+import type { LiveMetric, MetricsConfig, ServerStatus } from '../types.js';
+import { logError } from './logger.js';
+
+let config: MetricsConfig = { intervalSeconds: 10, maxSamples: 4320, recordOnStart: false };
+
+// Bounds for recordings started by a tool call: a week at the default interval
+export const MAX_RECORDING_SAMPLES = 60_480;
+export const MIN_RECORDING_INTERVAL_SECONDS = 5;
+
+export function configureMetrics(metricsConfig: MetricsConfig): void {
+  config = metricsConfig;
+}
+
+export function getMetricsConfig(): MetricsConfig {
+  return config;
+}
+
+export interface RecordingOptions {
+  intervalSeconds?: number;
+  maxSamples?: number;
+  // false keeps samples in memory only, even when a file is configured
+  persist?: boolean;
+}
+
+export interface RecordingStatus {
+  connection: string;
+  recording: boolean;
+  intervalSeconds: number;
+  maxSamples: number;
+  samples: number;
+  startedAt?: string;
+  oldest?: string;
+  newest?: string;
+  file?: string;
+  lastError?: string;
+}
+
+interface Recorder {
+  connection: string;
+  getClient: () => Promise<MongoClient>;
+  intervalSeconds: number;
+  maxSamples: number;
+  file?: string;
+  samples: LiveMetric[];
+  startedAt?: Date;
+  timer?: NodeJS.Timeout;
+  previous?: { status: ServerStatus; at: number };
+  sampling: boolean;
+  // Lines appended since the file was last rewritten
+  appended: number;
+  lastError?: string;
+}
+
+interface MetricLine extends LiveMetric {
+  connection: string;
+}
+
+const recorders = new Map<string, Recorder>();
+// Recorders share the metrics file; reads and rewrites of it run one at a time
+let fileQueue: Promise<void> = Promise.resolve();
+const sampleListeners = new Set<(connection: string, metric: LiveMetric) => void>();
+
+/**
+ * Calls the listener with every recorded sample; returns a function that
+ * removes it
+ */
+export function onMetricSample(listener: (connection: string, metric: LiveMetric) => void): () => void {
+  sampleListeners.add(listener);
+  return () => sampleListeners.delete(listener);
+}
+
+/**
+ * Derives a metric from two consecutive serverStatus results: counters as
+ * reported, rates over the elapsed seconds between them
+ */
+export function buildLiveMetric(current: ServerStatus, previous: ServerStatus, elapsedSeconds: number): LiveMetric {
+  const currentOps = current.opcounters!;
+  const prevOps = previous.opcounters!;
+  const rate = (now: number, before: number) => (now - before) / elapsedSeconds;
+  const currentNet = current.network!;
+  const prevNet = previous.network!;
+
+  return {
+    timestamp: new Date().toISOString(),
+    operations: {
+      counters: currentOps,
+      ratesPerSecond: {
+        insert: rate(currentOps.insert, prevOps.insert),
+        query: rate(currentOps.query, prevOps.query),
+        update: rate(currentOps.update, prevOps.update),
+        delete: rate(currentOps.delete, prevOps.delete),
+        command: rate(currentOps.command, prevOps.command),
+        getmore: rate(currentOps.getmore, prevOps.getmore),
+      },
+    },
+    connections: current.connections!,
+    network: {
+      totals: currentNet,
+      ratesPerSecond: {
+        bytesInPerSec: rate(currentNet.bytesIn, prevNet.bytesIn),
+        bytesOutPerSec: rate(currentNet.bytesOut, prevNet.bytesOut),
+        requestsPerSec: rate(currentNet.numRequests, prevNet.numRequests),
+      },
+    },
+    memory: current.mem!,
+    globalLock: current.globalLock!,
+  };
+}
+
+function status(recorder: Recorder): RecordingStatus {
+  return {
+    connection: recorder.connection,
+    recording: recorder.timer !== undefined,
+    intervalSeconds: recorder.intervalSeconds,
+    maxSamples: recorder.maxSamples,
+    samples: recorder.samples.length,
+    startedAt: recorder.startedAt?.toISOString(),
+    oldest: recorder.samples[0]?.timestamp,
+    newest: recorder.samples[recorder.samples.length - 1]?.timestamp,
+    file: recorder.file,
+    lastError: recorder.lastError,
+  };
+}
+
+async function readMetricLines(file: string): Promise<MetricLine[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const lines: MetricLine[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      lines.push(JSON.parse(line) as MetricLine);
+    } catch {
+      // A line cut short by a crash is skipped
+    }
+  }
+  return lines;
+}
+
+// Runs a file step after the ones already queued; the queue itself never rejects
+function enqueueFileStep<T>(step: () => Promise<T>): Promise<T> {
+  const done = fileQueue.then(step);
+  fileQueue = done.then(
+    () => undefined,
+    () => undefined
+  );
+  return done;
+}
+
+async function persist(recorder: Recorder, metric: LiveMetric): Promise<void> {
+  if (!recorder.file) return;
+  await enqueueFileStep(() => writeMetricLine(recorder, recorder.file!, metric));
+}
+
+async function writeMetricLine(recorder: Recorder, file: string, metric: LiveMetric): Promise<void> {
+  // Rewrite the file once it holds a full extra buffer, so it doesn't grow without bound
+  if (recorder.appended >= recorder.maxSamples) {
+    const others = (await readMetricLines(file)).filter((line) => line.connection !== recorder.connection);
+    const lines = [...others, ...recorder.samples.map((sample) => ({ connection: recorder.connection, ...sample }))];
+    await fs.writeFile(file, lines.map((line) => `${JSON.stringify(line)}\n`).join(''));
+    recorder.appended = 0;
+    return;
+  }
+
+  await fs.appendFile(file, `${JSON.stringify({ connection: recorder.connection, ...metric })}\n`);
+  recorder.appended++;
+}
+
+interface ReplicaSetMember {
+  stateStr: string;
+  optimeDate?: Date;
+}
+
+// The lag of the slowest secondary behind the primary, when this node can see both
+async function readReplicationLag(client: MongoClient): Promise<number | undefined> {
+  const status = await client.db('admin').command({ replSetGetStatus: 1 });
+  const members = (status.members ?? []) as ReplicaSetMember[];
+  const primary = members.find((member) => member.stateStr === 'PRIMARY');
+  const secondaries = members.filter((member) => member.stateStr === 'SECONDARY' && member.optimeDate);
+  if (!primary?.optimeDate || secondaries.length === 0) return undefined;
+  const primaryTime = primary.optimeDate.getTime();
+  return Math.max(0, ...secondaries.map((member) => (primaryTime - member.optimeDate!.getTime()) / 1000));
+}
+
+async function sample(recorder: Recorder): Promise<void> {
+  // A slow server can make one sample outlast the interval; never run two at once
+  if (recorder.sampling) return;
+  recorder.sampling = true;
+  try {
+    const client = await recorder.getClient();
+    const current = await client.db('admin').command({ serverStatus: 1 }) as ServerStatus;
+    const now = Date.now();
+    const previous = recorder.previous;
+    recorder.previous = { status: current, at: now };
+
+    // Counters restart with the server, which would make every rate negative
+    if (!previous || current.uptime < previous.status.uptime) return;
+
+    const metric = buildLiveMetric(current, previous.status, (now - previous.at) / 1000);
+    if (current.repl) {
+      try {
+        const lagSeconds = await readReplicationLag(client);
+        if (lagSeconds !== undefined) metric.replication = { lagSeconds };
+      } catch {
+        // replSetGetStatus needs the clusterMonitor role; the metric is left out without it
+      }
+    }
+    recorder.samples.push(metric);
+    if (recorder.samples.length > recorder.maxSamples) {
+      recorder.samples.splice(0, recorder.samples.length - recorder.maxSamples);
+    }
+    recorder.lastError = undefined;
+    for (const listener of sampleListeners) {
+      listener(recorder.connection, metric);
+    }
+    await persist(recorder, metric);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // A server that is down fails every sample; log the failure once
+    if (message !== recorder.lastError) {
+      logError('metricsRecorder', error, { connection: recorder.connection });
+    }
+    recorder.lastError = message;
+  } finally {
+    recorder.sampling = false;
+  }
+}
+
+/**
+ * Starts sampling a connection, or restarts it with new options. Samples
+ * already recorded are kept; with a file, earlier samples are loaded from it.
+ */
+export async function startRecording(
+  connection: string,
+  getClient: () => Promise<MongoClient>,
+  options: RecordingOptions = {}
+): Promise<RecordingStatus> {
+  const existing = recorders.get(connection);
+  if (existing?.timer) {
+    clearInterval(existing.timer);
+  }
+
+  const maxSamples = options.maxSamples ?? config.maxSamples;
+  const file = options.persist === false ? undefined : config.file;
+  const recorder: Recorder = {
+    connection,
+    getClient,
+    intervalSeconds: options.intervalSeconds ?? config.intervalSeconds,
+    maxSamples,
+    file,
+    samples: existing?.samples ?? [],
+    startedAt: new Date(),
+    sampling: false,
+    appended: 0,
+  };
+
+  if (!existing && file) {
+    const saved = await enqueueFileStep(() => readMetricLines(file));
+    recorder.samples = saved
+      .filter((line) => line.connection === connection)
+      .map(({ connection: _connection, ...metric }) => metric);
+    recorder.appended = saved.length;
+  }
+  recorder.samples = recorder.samples.slice(-maxSamples);
+
+  recorders.set(connection, recorder);
+  recorder.timer = setInterval(() => void sample(recorder), recorder.intervalSeconds * 1000);
+  // Recording never keeps the process alive on its own
+  recorder.timer.unref();
+  await sample(recorder);
+  return status(recorder);
+}
+
+/**
+ * Stops sampling a connection. Its samples stay available to
+ * getMetricsHistory until recording starts again.
+ */
+export function stopRecording(connection: string): RecordingStatus | undefined {
+  const recorder = recorders.get(connection);
+  if (!recorder) return undefined;
+  if (recorder.timer) {
+    clearInterval(recorder.timer);
+    recorder.timer = undefined;
+  }
+  return status(recorder);
+}
+
+export function isRecording(connection: string): boolean {
+  return recorders.get(connection)?.timer !== undefined;
+}
+
+export function stopAllRecordings(): void {
+  for (const connection of recorders.keys()) {
+    stopRecording(connection);
+  }
+}
+
+export function getRecordingStatus(connection: string): RecordingStatus | undefined {
+  const recorder = recorders.get(connection);
+  return recorder ? status(recorder) : undefined;
+}
+
+/**
+ * Recorded samples of a connection within [since, until], oldest first
+ */
+export function getRecordedMetrics(connection: string, since?: Date, until?: Date): LiveMetric[] {
+  const samples = recorders.get(connection)?.samples ?? [];
+  return samples.filter((metric) => {
+    const time = new Date(metric.timestamp).getTime();
+    return (!since || time >= since.getTime()) && (!until || time <= until.getTime());
+  });
+}
+
+// The numbers a history reports per sample
+const HISTORY_FIELDS: Record<string, (metric: LiveMetric) => number | undefined> = {
+  'opsPerSecond.insert': (metric) => metric.operations.ratesPerSecond.insert,
+  'opsPerSecond.query': (metric) => metric.operations.ratesPerSecond.query,
+  'opsPerSecond.update': (metric) => metric.operations.ratesPerSecond.update,
+  'opsPerSecond.delete': (metric) => metric.operations.ratesPerSecond.delete,
+  'opsPerSecond.command': (metric) => metric.operations.ratesPerSecond.command,
+  'opsPerSecond.getmore': (metric) => metric.operations.ratesPerSecond.getmore,
+  'connections.current': (metric) => metric.connections?.current,
+  'connections.available': (metric) => metric.connections?.available,
+  'network.bytesInPerSec': (metric) => metric.network.ratesPerSecond.bytesInPerSec,
+  'network.bytesOutPerSec': (metric) => metric.network.ratesPerSecond.bytesOutPerSec,
+  'network.requestsPerSec': (metric) => metric.network.ratesPerSecond.requestsPerSec,
+  'memory.residentMB': (metric) => metric.memory?.resident,
+  'globalLock.currentQueue.total': (metric) => metric.globalLock?.currentQueue?.total,
+  'globalLock.activeClients.total': (metric) => metric.globalLock?.activeClients?.total,
+  'replication.lagSeconds': (metric) => metric.replication?.lagSeconds,
+};
+
+export const HISTORY_FIELD_NAMES = Object.keys(HISTORY_FIELDS);
+
+/**
+ * The value of a history field in a sample, or undefined when the sample
+ * lacks it (e.g. replication lag outside a replica set)
+ */
+export function metricValue(metric: LiveMetric, field: string): number | undefined {
+  return HISTORY_FIELDS[field]?.(metric);
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(2));
+}
+
+/**
+ * Averages samples into at most `maxPoints` equal time buckets and
+ * summarizes each field's minimum, average and maximum over the window
+ */
+export function downsampleMetrics(samples: LiveMetric[], maxPoints: number, fields = HISTORY_FIELD_NAMES) {
+  const summary: Record<string, { min: number; avg: number; max: number }> = {};
+  for (const field of fields) {
+    const values = samples.map(HISTORY_FIELDS[field]).filter((value): value is number => typeof value === 'number');
+    if (values.length === 0) continue;
+    // A loop rather than Math.min(...values), which overflows the stack on large buffers
+    let min = values[0];
+    let max = values[0];
+    for (const value of values) {
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    summary[field] = {
+      min: round(min),
+      avg: round(values.reduce((sum, value) => sum + value, 0) / values.length),
+      max: round(max),
+    };
+  }
+  if (samples.length === 0) return { summary, points: [] };
+
+  const start = new Date(samples[0].timestamp).getTime();
+  const end = new Date(samples[samples.length - 1].timestamp).getTime();
+  const bucketCount = Math.max(1, Math.min(maxPoints, samples.length));
+  const width = Math.max(1, (end - start) / bucketCount);
+  const buckets: LiveMetric[][] = Array.from({ length: bucketCount }, () => []);
+  for (const metric of samples) {
+    const index = Math.min(bucketCount - 1, Math.floor((new Date(metric.timestamp).getTime() - start) / width));
+    buckets[index].push(metric);
+  }
+
+  const points = buckets
+    .map((bucket, i) => ({ bucket, from: new Date(start + width * i) }))
+    .filter(({ bucket }) => bucket.length > 0)
+    .map(({ bucket, from }) => {
+      const point: Record<string, unknown> = { timestamp: from.toISOString(), samples: bucket.length };
+      for (const field of fields) {
+        const values = bucket.map(HISTORY_FIELDS[field]).filter((value): value is number => typeof value === 'number');
+        if (values.length > 0) point[field] = round(values.reduce((sum, value) => sum + value, 0) / values.length);
+      }
+      return point;
+    });
+  return { summary, points };
+}
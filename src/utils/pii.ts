@@ -0,0 +1,267 @@
+/**
+ * Pattern-based detection of personal data in document values, used to mask
+ * or hash results and by the scanForPII tool
+ */
+import { createHmac, randomBytes } from 'crypto';
+import { isIP } from 'net';
+import type { PiiConfig, PiiMode, PiiType } from '../types.js';
+
+export const PII_TYPES: PiiType[] = ['email', 'phone', 'creditCard', 'iban', 'nationalId', 'ipAddress'];
+
+let mode: PiiMode = 'off';
+let enabledDetectors: PiiType[] = PII_TYPES;
+let hashSalt = randomBytes(32).toString('hex');
+
+export function configurePii(config: PiiConfig): void {
+  mode = config.mode;
+  enabledDetectors = config.detectors.length > 0 ? config.detectors : PII_TYPES;
+  // Without a configured salt the key is random, so hashes only match within one run
+  hashSalt = config.salt || randomBytes(32).toString('hex');
+}
+
+export function getPiiMode(): PiiMode {
+  return mode;
+}
+
+const MAX_EXAMPLE_LENGTH = 100;
+
+// Candidates are found anywhere in a string and then checked by the detectors
+const CANDIDATE_PATTERNS: Record<PiiType, RegExp[]> = {
+  email: [/(?<![A-Za-z0-9._%+-])[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g],
+  phone: [/(?<![\w+])\+?\d[\d\s().-]{5,18}\d(?!\w)/g],
+  creditCard: [/(?<![\d-])\d{4}(?:[ -]?\d{3,4}){2,4}(?![\d-])/g],
+  iban: [/\b[A-Z]{2}\d{2}(?:[A-Z0-9]{11,30}|(?: [A-Z0-9]{4}){2,7}(?: [A-Z0-9]{1,3})?)\b/gi],
+  nationalId: [
+    /(?<!\d)(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}(?!\d)/g,
+    /\b(?!BG|GB|NK|KN|TN|NT|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/gi,
+  ],
+  ipAddress: [/(?<![\d.])(?:\d{1,3}\.){3}\d{1,3}(?!\.?\d)/g, /(?<![\w:])(?:[0-9A-Fa-f]{0,4}:){2,7}[0-9A-Fa-f]{0,4}(?![\w:])/g],
+};
+
+const DATE_PATTERN = /^\d{1,4}[-./]\d{1,2}[-./]\d{1,4}$/;
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function passesIbanChecksum(iban: string): boolean {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// Checks a candidate matched by the type's pattern
+const DETECTORS: Record<PiiType, (value: string) => boolean> = {
+  creditCard: (value) => {
+    const digits = digitsOf(value);
+    return digits.length >= 13 && digits.length <= 19 && passesLuhn(digits);
+  },
+  iban: (value) => passesIbanChecksum(value.replace(/\s/g, '').toUpperCase()),
+  nationalId: () => true,
+  ipAddress: (value) => isIP(value) !== 0,
+  email: (value) => value.length <= 254,
+  phone: (value) => {
+    const digits = digitsOf(value);
+    // Bare digit runs are usually ids or amounts; require a '+' or separators
+    return !DATE_PATTERN.test(value) && digits.length >= 7 && digits.length <= 15 && /^\+|[\s().-]/.test(value);
+  },
+};
+
+// Stricter formats come first so that a card or IBAN is not reported as a phone number
+const DETECTION_ORDER: PiiType[] = ['creditCard', 'iban', 'nationalId', 'ipAddress', 'email', 'phone'];
+
+interface PiiSpan {
+  type: PiiType;
+  start: number;
+  end: number;
+}
+
+/**
+ * Finds personal data anywhere in a string, including inside free text.
+ * Spans don't overlap; where two formats match the same text, the stricter
+ * one wins. Returned in order of position.
+ */
+function findPiiSpans(value: string): PiiSpan[] {
+  const spans: PiiSpan[] = [];
+  if (value.length < 6) return spans;
+
+  for (const type of DETECTION_ORDER) {
+    if (!enabledDetectors.includes(type)) continue;
+    for (const pattern of CANDIDATE_PATTERNS[type]) {
+      for (const match of value.matchAll(pattern)) {
+        const start = match.index;
+        const end = start + match[0].length;
+        if (spans.some((span) => start < span.end && end > span.start) || !DETECTORS[type](match[0])) continue;
+        spans.push({ type, start, end });
+      }
+    }
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Returns the kind of personal data found in a string, if any
+ */
+export function detectPii(value: string): PiiType | undefined {
+  return findPiiSpans(value)[0]?.type;
+}
+
+function maskValue(type: PiiType, value: string): string {
+  switch (type) {
+    case 'email': {
+      const [local, domain] = value.split('@');
+      return `${local[0]}***@${domain}`;
+    }
+    case 'creditCard':
+    case 'iban':
+    case 'phone': {
+      const compact = value.replace(/[\s().-]/g, '');
+      return `***${compact.slice(-4)}`;
+    }
+    default:
+      return `***${type.toUpperCase()}***`;
+  }
+}
+
+function hashValue(type: PiiType, value: string): string {
+  // Keyed so hashes stay stable across calls (usable for grouping) but can't be
+  // reversed with a lookup table of common values
+  const digest = createHmac('sha256', hashSalt).update(value.trim()).digest('hex');
+  return `${type}:${digest.slice(0, 16)}`;
+}
+
+// Replaces each span of personal data and keeps the text around it
+function replaceSpans(value: string, replace: (type: PiiType, text: string) => string): string {
+  const spans = findPiiSpans(value);
+  if (spans.length === 0) return value;
+
+  let result = '';
+  let position = 0;
+  for (const { type, start, end } of spans) {
+    result += value.slice(position, start) + replace(type, value.slice(start, end));
+    position = end;
+  }
+  return result + value.slice(position);
+}
+
+function protectValue(value: string): string {
+  return replaceSpans(value, mode === 'hash' ? hashValue : maskValue);
+}
+
+function protectNested(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return protectValue(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(protectNested);
+  }
+  // Leave BSON values (ObjectId, Date, Decimal128, ...) untouched
+  if (!value || typeof value !== 'object' || value.constructor !== Object) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
+    result[key] = protectNested(nested);
+  }
+  return result;
+}
+
+/**
+ * Masks or hashes personal data found anywhere in a result value (documents,
+ * arrays of documents or distinct values). A no-op when the PII mode is off.
+ */
+export function protectPii<T>(value: T): T {
+  return mode === 'off' ? value : (protectNested(value) as T);
+}
+
+export interface PiiFieldReport {
+  field: string;
+  types: Partial<Record<PiiType, number>>;
+  matches: number;
+  present: number;
+  matchRatio: number;
+  example: string;
+}
+
+/**
+ * Walks sampled documents and counts, per field path, how many string values
+ * look like personal data. Array elements are reported under the array's path.
+ */
+export function scanDocumentsForPii(documents: Record<string, unknown>[]): PiiFieldReport[] {
+  const fields = new Map<string, { types: Partial<Record<PiiType, number>>; matches: number; present: number; example?: string }>();
+
+  const visit = (value: unknown, path: string, seen: Set<string>): void => {
+    if (Array.isArray(value)) {
+      value.forEach((item) => visit(item, path, seen));
+      return;
+    }
+    if (value && typeof value === 'object' && value.constructor === Object) {
+      for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
+        visit(nested, path ? `${path}.${key}` : key, seen);
+      }
+      return;
+    }
+    if (!path) return;
+
+    let stats = fields.get(path);
+    if (!stats) {
+      stats = { types: {}, matches: 0, present: 0 };
+      fields.set(path, stats);
+    }
+    // Count each field once per document even when it sits inside an array
+    if (!seen.has(path)) {
+      stats.present++;
+      seen.add(path);
+    }
+
+    if (typeof value !== 'string') return;
+    const type = detectPii(value);
+    if (!type) return;
+
+    stats.types[type] = (stats.types[type] || 0) + 1;
+    if (!seen.has(`${path}#match`)) {
+      stats.matches++;
+      seen.add(`${path}#match`);
+    }
+    stats.example ??= replaceSpans(value.trim(), maskValue).slice(0, MAX_EXAMPLE_LENGTH);
+  };
+
+  for (const document of documents) {
+    const seen = new Set<string>();
+    for (const [key, value] of Object.entries(document)) {
+      visit(value, key, seen);
+    }
+  }
+
+  return [...fields.entries()]
+    .filter(([, stats]) => stats.matches > 0)
+    .map(([field, stats]) => ({
+      field,
+      types: stats.types,
+      matches: stats.matches,
+      present: stats.present,
+      matchRatio: parseFloat((stats.matches / stats.present).toFixed(2)),
+      example: stats.example as string,
+    }))
+    .sort((a, b) => b.matchRatio - a.matchRatio || b.matches - a.matches);
+}
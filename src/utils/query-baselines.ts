@@ -0,0 +1,60 @@
+/**
+ * Local store for query shape baselines. Each baseline is one Extended JSON
+ * file named after the baseline in the configured directory; saving under an
+ * existing name replaces it.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BSON } from 'mongodb';
+import type { QueryBaseline, QueryBaselineConfig } from '../types.js';
+
+const BASELINE_NAME_PATTERN = /^[\w-]+$/;
+
+let config: QueryBaselineConfig = { dir: './query-baselines' };
+
+export function configureQueryBaselines(baselineConfig: QueryBaselineConfig): void {
+  config = baselineConfig;
+}
+
+export function validateBaselineName(name: string): void {
+  if (!BASELINE_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid baseline name '${name}': use letters, digits, '_' and '-'`);
+  }
+}
+
+function baselineFile(name: string): string {
+  validateBaselineName(name);
+  return path.join(config.dir, `${name}.json`);
+}
+
+export async function saveQueryBaseline(init: Omit<QueryBaseline, 'createdAt'>): Promise<QueryBaseline> {
+  const baseline: QueryBaseline = { ...init, createdAt: new Date().toISOString() };
+  const file = baselineFile(baseline.name);
+  await fs.mkdir(config.dir, { recursive: true });
+  await fs.writeFile(file, BSON.EJSON.stringify(baseline, undefined, 2, { relaxed: false }));
+  return baseline;
+}
+
+export async function loadQueryBaseline(name: string): Promise<QueryBaseline | undefined> {
+  try {
+    return BSON.EJSON.parse(await fs.readFile(baselineFile(name), 'utf8'), { relaxed: false }) as QueryBaseline;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Names of the saved baselines
+ */
+export async function listQueryBaselines(): Promise<string[]> {
+  try {
+    return (await fs.readdir(config.dir))
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => file.slice(0, -'.json'.length))
+      .sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
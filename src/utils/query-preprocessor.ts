@@ -1,77 +1,242 @@
-import { ObjectId } from 'mongodb';
+/**
+ * Coerces string (and number) values in filters to the BSON types a field
+ * actually holds, based on a cached sample of the collection. A 24-hex string
+ * only becomes an ObjectId when the field stores ObjectIds, so string ids
+ * such as `externalId` are left alone.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { Binary, Decimal128, ObjectId, UUID, type Db, type Document, type MongoClient } from 'mongodb';
 import type { MongoQuery, MongoFilter } from '../types.js';
+import { isBsonValue } from './ejson.js';
 
-function isObjectIdField(fieldName: string): boolean {
-  const objectIdPatterns = [
-    /^_id$/,
-    /Id$/,
-    /^id$/i,
-    /_id$/,
-    /^ref/i,
-  ];
+const SAMPLE_SIZE = 100;
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const MAX_DEPTH = 8;
 
-  return objectIdPatterns.some(pattern => pattern.test(fieldName));
+type SampledType = 'objectId' | 'date' | 'uuid' | 'decimal' | 'string' | 'number' | 'other';
+type CoercedType = 'ObjectId' | 'Date' | 'UUID' | 'Decimal128';
+
+/**
+ * A filter value that was converted, reported back to the caller
+ */
+export interface Coercion {
+  collection: string;
+  path: string;
+  value: string | number;
+  type: CoercedType;
+}
+
+interface TypeCacheEntry {
+  expiresAt: number;
+  types: Promise<Map<string, Set<SampledType>>>;
+}
+
+// Keyed by client so same-named databases on different connections don't share types
+const typeCache = new WeakMap<MongoClient, Map<string, TypeCacheEntry>>();
+const coercionStorage = new AsyncLocalStorage<Coercion[]>();
+
+const OBJECT_ID_PATTERN = /^[0-9a-f]{24}$/i;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const DECIMAL_PATTERN = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+
+// Comparison operators whose operand is a value of the field itself
+const VALUE_OPERATORS = new Set(['$eq', '$ne', '$gt', '$gte', '$lt', '$lte']);
+const LIST_OPERATORS = new Set(['$in', '$nin', '$all']);
+const LOGICAL_OPERATORS = new Set(['$and', '$or', '$nor']);
+
+function classify(value: unknown): SampledType {
+  if (typeof value === 'string') return 'string';
+  if (typeof value === 'number') return 'number';
+  if (value instanceof Date) return 'date';
+  if (value instanceof ObjectId) return 'objectId';
+  if (value instanceof Decimal128) return 'decimal';
+  if (value instanceof Binary && value.sub_type === Binary.SUBTYPE_UUID) return 'uuid';
+  return 'other';
 }
 
-function preprocessQueryValue(value: unknown, fieldName?: string): unknown {
-  if (!value || typeof value !== 'object') {
-    return value;
+function collectTypes(value: unknown, path: string, types: Map<string, Set<SampledType>>, depth: number): void {
+  if (depth > MAX_DEPTH || value === null || value === undefined) return;
+
+  // Array elements are recorded under the array's own path, the way queries address them
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectTypes(item, path, types, depth + 1));
+    return;
+  }
+
+  if (typeof value === 'object' && !isBsonValue(value)) {
+    for (const [key, nested] of Object.entries(value as Document)) {
+      collectTypes(nested, path ? `${path}.${key}` : key, types, depth + 1);
+    }
+    return;
+  }
+
+  if (!types.has(path)) types.set(path, new Set());
+  types.get(path)!.add(classify(value));
+}
+
+async function sampleFieldTypes(db: Db, collection: string): Promise<Map<string, Set<SampledType>>> {
+  const types = new Map<string, Set<SampledType>>();
+  try {
+    const docs = await db.collection(collection).aggregate([{ $sample: { size: SAMPLE_SIZE } }]).toArray();
+    docs.forEach((doc) => collectTypes(doc, '', types, 0));
+  } catch {
+    // Coercion is best effort; the query itself reports real errors
+  }
+  return types;
+}
+
+/**
+ * Returns the sampled types per field path, cached per collection for ten
+ * minutes
+ */
+async function getFieldTypes(db: Db, collection: string): Promise<Map<string, Set<SampledType>>> {
+  let collections = typeCache.get(db.client);
+  if (!collections) {
+    collections = new Map();
+    typeCache.set(db.client, collections);
+  }
+
+  const key = `${db.databaseName}.${collection}`;
+  const now = Date.now();
+  let entry = collections.get(key);
+  if (!entry || entry.expiresAt < now) {
+    const types = sampleFieldTypes(db, collection);
+    const created: TypeCacheEntry = { expiresAt: now + CACHE_TTL_MS, types };
+    collections.set(key, created);
+    // An empty or missing collection says nothing yet; sample again next time
+    void types.then((sampled) => {
+      if (sampled.size === 0 && collections.get(key) === created) collections.delete(key);
+    });
+    entry = created;
+  }
+  return entry.types;
+}
+
+function coerceValue(value: unknown, sampled: Set<SampledType> | undefined): { value: unknown; type?: CoercedType } {
+  if (!sampled) return { value };
+
+  // Only coerce when the field never holds the type that was sent, so mixed
+  // fields keep matching the values stored as strings or numbers
+  if (typeof value === 'string' && !sampled.has('string')) {
+    if (sampled.has('objectId') && OBJECT_ID_PATTERN.test(value)) {
+      return { value: new ObjectId(value), type: 'ObjectId' };
+    }
+    if (sampled.has('uuid') && UUID_PATTERN.test(value)) {
+      return { value: new UUID(value), type: 'UUID' };
+    }
+    if (sampled.has('date') && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value))) {
+      return { value: new Date(value), type: 'Date' };
+    }
+    if (sampled.has('decimal') && DECIMAL_PATTERN.test(value)) {
+      return { value: Decimal128.fromString(value), type: 'Decimal128' };
+    }
+  }
+
+  if (typeof value === 'number' && Number.isFinite(value) && sampled.has('decimal') && !sampled.has('number')) {
+    return { value: Decimal128.fromString(String(value)), type: 'Decimal128' };
   }
 
+  return { value };
+}
+
+function fieldPath(path: string): string {
+  // Positional segments (items.0.sku) address array elements, which are sampled under the array path
+  return path
+    .split('.')
+    .filter((segment) => !/^\d+$/.test(segment) && segment !== '$')
+    .join('.');
+}
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    value.constructor === Object &&
+    Object.keys(value).length > 0 &&
+    Object.keys(value).every((key) => key.startsWith('$'))
+  );
+}
+
+interface CoercionContext {
+  collection: string;
+  types: Map<string, Set<SampledType>>;
+  coercions: Coercion[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && !isBsonValue(value);
+}
+
+function coerceFilter(query: MongoQuery, prefix: string, context: CoercionContext): MongoFilter {
   const processed: Record<string, unknown> = {};
-  const isObjectIdFieldName = fieldName ? isObjectIdField(fieldName) : false;
-
-  for (const [operator, operatorValue] of Object.entries(value as Record<string, unknown>)) {
-    if (operator.startsWith('$')) {
-      if (Array.isArray(operatorValue)) {
-        processed[operator] = operatorValue.map(item => {
-          if (isObjectIdFieldName && typeof item === 'string' && ObjectId.isValid(item)) {
-            return new ObjectId(item);
-          }
-          return item;
-        });
-      } else if (isObjectIdFieldName && typeof operatorValue === 'string' && ObjectId.isValid(operatorValue)) {
-        processed[operator] = new ObjectId(operatorValue);
-      } else {
-        processed[operator] = operatorValue;
-      }
+  for (const [key, value] of Object.entries(query)) {
+    if (LOGICAL_OPERATORS.has(key) && Array.isArray(value)) {
+      processed[key] = value.map((clause) => (isPlainObject(clause) ? coerceFilter(clause, prefix, context) : clause));
+    } else if (key.startsWith('$')) {
+      // $expr, $text, $where, ... are passed through untouched
+      processed[key] = value;
     } else {
-      processed[operator] = operatorValue;
+      processed[key] = coerceCondition(value, prefix ? `${prefix}.${key}` : key, context);
     }
   }
-
   return processed;
 }
 
-export function preprocessQuery(query: MongoQuery): MongoFilter {
-  if (!query || typeof query !== 'object') {
-    return query;
+function coerceCondition(value: unknown, path: string, context: CoercionContext): unknown {
+  if (!isOperatorObject(value)) {
+    return Array.isArray(value)
+      ? value.map((item) => coerceScalar(item, path, context))
+      : coerceScalar(value, path, context);
   }
 
   const processed: Record<string, unknown> = {};
-
-  for (const [key, value] of Object.entries(query)) {
-    if (isObjectIdField(key)) {
-      if (typeof value === 'string' && ObjectId.isValid(value)) {
-        processed[key] = new ObjectId(value);
-      } else if (typeof value === 'object' && value !== null) {
-        processed[key] = preprocessQueryValue(value, key);
-      } else {
-        processed[key] = value;
-      }
-    } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-      processed[key] = preprocessQuery(value as MongoQuery);
-    } else if (Array.isArray(value)) {
-      processed[key] = value.map(item => {
-        if (isObjectIdField(key) && typeof item === 'string' && ObjectId.isValid(item)) {
-          return new ObjectId(item);
-        }
-        return typeof item === 'object' ? preprocessQuery(item as MongoQuery) : item;
-      });
+  for (const [operator, operand] of Object.entries(value)) {
+    if (VALUE_OPERATORS.has(operator)) {
+      processed[operator] = coerceScalar(operand, path, context);
+    } else if (LIST_OPERATORS.has(operator) && Array.isArray(operand)) {
+      processed[operator] = operand.map((item) => coerceScalar(item, path, context));
+    } else if (operator === '$not') {
+      processed[operator] = coerceCondition(operand, path, context);
+    } else if (operator === '$elemMatch' && isPlainObject(operand)) {
+      processed[operator] = isOperatorObject(operand)
+        ? coerceCondition(operand, path, context)
+        : coerceFilter(operand, path, context);
     } else {
-      processed[key] = value;
+      processed[operator] = operand;
     }
   }
+  return processed;
+}
+
+function coerceScalar(value: unknown, path: string, context: CoercionContext): unknown {
+  const result = coerceValue(value, context.types.get(fieldPath(path)));
+  if (result.type) {
+    context.coercions.push({ collection: context.collection, path, value: value as string | number, type: result.type });
+  }
+  return result.value;
+}
 
+/**
+ * Coerces filter values to the types sampled from the collection. Coercions
+ * are recorded for the current tool call (see collectCoercions).
+ */
+export async function preprocessQuery(db: Db, collection: string, query: MongoQuery): Promise<MongoFilter> {
+  if (!query || typeof query !== 'object' || isBsonValue(query) || Object.keys(query).length === 0) {
+    return query;
+  }
+
+  const context: CoercionContext = { collection, types: await getFieldTypes(db, collection), coercions: [] };
+  const processed = coerceFilter(query, '', context);
+  coercionStorage.getStore()?.push(...context.coercions);
   return processed;
 }
+
+/**
+ * Runs a tool call and returns the coercions its filters went through
+ */
+export async function collectCoercions<T>(fn: () => Promise<T>): Promise<{ result: T; coercions: Coercion[] }> {
+  const coercions: Coercion[] = [];
+  const result = await coercionStorage.run(coercions, fn);
+  return { result, coercions };
+}
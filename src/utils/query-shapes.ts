@@ -0,0 +1,268 @@
+/**
+ * Query shapes: filters and sorts with their values replaced by `?`, so that
+ * queries differing only in the values they look for are grouped together.
+ * Shapes are extracted from profiler entries (system.profile) and from
+ * $queryStats, where the server already reports them.
+ */
+import type { Db, Document } from 'mongodb';
+import type { ProfilerStatus } from '../types.js';
+import { isBsonValue } from './ejson.js';
+
+export type ShapeOperation = 'find' | 'aggregate' | 'count' | 'distinct' | 'update' | 'delete' | 'findAndModify';
+
+export interface QueryShape {
+  collection: string;
+  operation: ShapeOperation;
+  filter: Document;
+  sort?: Record<string, number>;
+}
+
+/**
+ * Execution counters summed over every run of a shape
+ */
+export interface ShapeStats extends QueryShape {
+  key: string;
+  count: number;
+  totalMillis: number;
+  maxMillis: number;
+  docsExamined: number;
+  keysExamined: number;
+  returned: number;
+  collectionScans: number;
+  inMemorySorts: number;
+  planSummaries: string[];
+  // Durations of the individual runs, when the source reports them
+  latencies: number[];
+  lastSeen?: Date;
+}
+
+export const PROFILING_DISABLED = 'Profiling is disabled. Enable it (level 1 with a slowms threshold) to collect queries.';
+
+const PLACEHOLDER = '?';
+// Profiler fields shapes are built from; the rest of each entry is never fetched
+const PROFILER_PROJECTION = {
+  op: 1, ns: 1, command: 1, planSummary: 1, docsExamined: 1, keysExamined: 1, nreturned: 1, nMatched: 1, hasSortStage: 1, millis: 1, ts: 1,
+};
+const QUERY_OPS = ['query', 'command', 'update', 'remove'];
+// Operands that are lists of values, as opposed to lists of clauses
+const LIST_OPERATORS = new Set(['$in', '$nin', '$all']);
+const CLAUSE_OPERATORS = new Set(['$and', '$or', '$nor']);
+
+function isPlainObject(value: unknown): value is Document {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && !isBsonValue(value);
+}
+
+/**
+ * Replaces the values of a filter with placeholders, keeping fields and
+ * operators
+ */
+export function normalizeFilter(filter: unknown): unknown {
+  if (!isPlainObject(filter)) {
+    return PLACEHOLDER;
+  }
+
+  const shape: Document = {};
+  for (const [key, value] of Object.entries(filter)) {
+    if (CLAUSE_OPERATORS.has(key) && Array.isArray(value)) {
+      shape[key] = value.map((clause) => normalizeFilter(clause));
+    } else if (LIST_OPERATORS.has(key)) {
+      shape[key] = [PLACEHOLDER];
+    } else if (key.startsWith('$')) {
+      shape[key] = isPlainObject(value) ? normalizeFilter(value) : PLACEHOLDER;
+    } else if (isPlainObject(value) && Object.keys(value).some((operator) => operator.startsWith('$'))) {
+      shape[key] = normalizeFilter(value);
+    } else {
+      // An exact value, including whole embedded documents
+      shape[key] = PLACEHOLDER;
+    }
+  }
+  return shape;
+}
+
+export function shapeKey(shape: QueryShape): string {
+  return JSON.stringify([shape.collection, shape.operation, shape.filter, shape.sort ?? null]);
+}
+
+function asSort(value: unknown): Record<string, number> | undefined {
+  if (!isPlainObject(value) || Object.keys(value).length === 0) return undefined;
+  return Object.fromEntries(Object.entries(value).map(([field, direction]) => [field, typeof direction === 'number' ? direction : 1]));
+}
+
+/**
+ * The query shape of a profiler entry, or undefined for entries that don't
+ * run a query (getMore, inserts, admin commands)
+ */
+export function extractProfiledShape(entry: Document): QueryShape | undefined {
+  const ns = typeof entry.ns === 'string' ? entry.ns : '';
+  const collection = ns.slice(ns.indexOf('.') + 1);
+  const command = (entry.command ?? {}) as Document;
+  if (!collection || collection.startsWith('system.')) return undefined;
+
+  const shape = (operation: ShapeOperation, filter: unknown, sort?: unknown): QueryShape => ({
+    collection,
+    operation,
+    filter: normalizeFilter(filter ?? {}) as Document,
+    sort: asSort(sort),
+  });
+
+  switch (entry.op) {
+    case 'query':
+      return shape('find', command.filter, command.sort);
+    case 'update':
+      return shape('update', command.q);
+    case 'remove':
+      return shape('delete', command.q);
+    case 'command':
+      if (command.aggregate && Array.isArray(command.pipeline)) {
+        const [first, second] = command.pipeline as Document[];
+        const filter = first?.$match;
+        const sort = filter ? second?.$sort : first?.$sort;
+        return shape('aggregate', filter, sort);
+      }
+      if (command.count) return shape('count', command.query);
+      if (command.distinct) return shape('distinct', command.query);
+      if (command.findAndModify || command.findandmodify) return shape('findAndModify', command.query, command.sort);
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Reads the newest profiler entries that may run queries, or returns
+ * undefined when profiling is disabled on the database
+ */
+export async function readProfiledQueries(
+  db: Db,
+  options: { collection?: string; since?: Date; limit: number }
+): Promise<Document[] | undefined> {
+  const profileStatus = await db.command({ profile: -1 }) as ProfilerStatus;
+  if (profileStatus.was === 0) return undefined;
+
+  const filter: Document = { op: { $in: QUERY_OPS } };
+  if (options.collection) filter.ns = `${db.databaseName}.${options.collection}`;
+  if (options.since) filter.ts = { $gte: options.since };
+  return db
+    .collection('system.profile')
+    .find(filter, { projection: PROFILER_PROJECTION })
+    .sort({ ts: -1 })
+    .limit(options.limit)
+    .toArray();
+}
+
+/**
+ * Groups profiler entries by query shape, most expensive (total time) first
+ */
+export function groupProfiledShapes(entries: Document[]): ShapeStats[] {
+  const groups = new Map<string, ShapeStats>();
+  for (const entry of entries) {
+    const shape = extractProfiledShape(entry);
+    if (!shape) continue;
+
+    const key = shapeKey(shape);
+    let stats = groups.get(key);
+    if (!stats) {
+      stats = {
+        ...shape,
+        key,
+        count: 0,
+        totalMillis: 0,
+        maxMillis: 0,
+        docsExamined: 0,
+        keysExamined: 0,
+        returned: 0,
+        collectionScans: 0,
+        inMemorySorts: 0,
+        planSummaries: [],
+        latencies: [],
+      };
+      groups.set(key, stats);
+    }
+
+    const millis = Number(entry.millis ?? 0);
+    const planSummary = typeof entry.planSummary === 'string' ? entry.planSummary : undefined;
+    stats.count++;
+    stats.totalMillis += millis;
+    stats.latencies.push(millis);
+    stats.maxMillis = Math.max(stats.maxMillis, millis);
+    stats.docsExamined += Number(entry.docsExamined ?? 0);
+    stats.keysExamined += Number(entry.keysExamined ?? 0);
+    stats.returned += Number(entry.nreturned ?? entry.nMatched ?? 0);
+    if (planSummary?.startsWith('COLLSCAN')) stats.collectionScans++;
+    if (entry.hasSortStage) stats.inMemorySorts++;
+    if (planSummary && !stats.planSummaries.includes(planSummary)) stats.planSummaries.push(planSummary);
+    if (entry.ts instanceof Date && (!stats.lastSeen || entry.ts > stats.lastSeen)) stats.lastSeen = entry.ts;
+  }
+  return [...groups.values()].sort((a, b) => b.totalMillis - a.totalMillis);
+}
+
+// $queryStats reports placeholders such as "?number"; the shape only needs to know there is a value
+function normalizeQueryStatsValue(value: unknown): unknown {
+  if (typeof value === 'string' && value.startsWith('?')) return PLACEHOLDER;
+  if (Array.isArray(value)) return value.map(normalizeQueryStatsValue);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, normalizeQueryStatsValue(nested)]));
+  }
+  return value;
+}
+
+/**
+ * Converts $queryStats entries of one database to shape statistics. Only
+ * find and aggregate shapes are reported by the server.
+ */
+export function groupQueryStatsShapes(entries: Document[], database: string): ShapeStats[] {
+  const shapes: ShapeStats[] = [];
+  for (const entry of entries) {
+    const queryShape = (entry.key?.queryShape ?? {}) as Document;
+    if (queryShape.cmdNs?.db !== database || typeof queryShape.cmdNs?.coll !== 'string') continue;
+
+    let filter: unknown = queryShape.filter;
+    let sort: unknown = queryShape.sort;
+    let operation: ShapeOperation = 'find';
+    if (queryShape.command === 'aggregate') {
+      operation = 'aggregate';
+      const [first, second] = (queryShape.pipeline ?? []) as Document[];
+      filter = first?.$match;
+      sort = filter ? second?.$sort : first?.$sort;
+    } else if (queryShape.command !== 'find') {
+      continue;
+    }
+
+    const shape: QueryShape = {
+      collection: queryShape.cmdNs.coll,
+      operation,
+      filter: normalizeFilter(normalizeQueryStatsValue(filter ?? {})) as Document,
+      sort: asSort(sort),
+    };
+    const metrics = (entry.metrics ?? {}) as Document;
+    const count = Number(metrics.execCount ?? 0);
+    const keysExamined = Number(metrics.keysExamined?.sum ?? 0);
+    const docsExamined = Number(metrics.docsExamined?.sum ?? 0);
+    shapes.push({
+      ...shape,
+      key: shapeKey(shape),
+      count,
+      totalMillis: Number(metrics.totalExecMicros?.sum ?? 0) / 1000,
+      maxMillis: Number(metrics.totalExecMicros?.max ?? 0) / 1000,
+      docsExamined,
+      keysExamined,
+      returned: Number(metrics.docsReturned?.sum ?? 0),
+      // Examining documents without any index keys means the plan scanned the collection
+      collectionScans: docsExamined > 0 && keysExamined === 0 ? count : 0,
+      inMemorySorts: Number(metrics.hasSortStage?.true ?? metrics.hasSortStage ?? 0),
+      planSummaries: [],
+      latencies: [],
+      lastSeen: metrics.latestSeenTimestamp instanceof Date ? metrics.latestSeenTimestamp : undefined,
+    });
+  }
+  return shapes.sort((a, b) => b.totalMillis - a.totalMillis);
+}
+
+/**
+ * Nearest-rank percentile of a list of durations
+ */
+export function percentile(values: number[], p: number): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+}
@@ -1,5 +1,5 @@
 const adminOpLimiter = new Map<string, { count: number; resetTime: number }>();
-const ADMIN_RATE_LIMIT = 100; // requests per minute
+let ADMIN_RATE_LIMIT = 100; // requests per minute
 const ADMIN_WINDOW_MS = 60000; // 1 minute
 const CLEANUP_INTERVAL_MS = 300000; // 5 minutes
 
@@ -14,6 +14,10 @@ function cleanupExpiredEntries(): void {
 
 setInterval(cleanupExpiredEntries, CLEANUP_INTERVAL_MS);
 
+export function configureAdminRateLimit(requestsPerMinute: number): void {
+  ADMIN_RATE_LIMIT = requestsPerMinute;
+}
+
 export function checkAdminRateLimit(operation: string): boolean {
   const now = Date.now();
   const key = operation;
@@ -0,0 +1,95 @@
+/**
+ * Collection lifecycle events shared by all MCP sessions. Tools that create
+ * or drop collections publish them; every connected server turns them into
+ * resource notifications for its client.
+ */
+import type { Db } from 'mongodb';
+
+export interface CollectionChange {
+  connection: string;
+  database: string;
+  collection: string;
+  // updated: the contents were replaced or merged into, e.g. by $out or $merge
+  change: 'created' | 'dropped' | 'updated';
+}
+
+type CollectionChangeListener = (event: CollectionChange) => void;
+
+const listeners = new Set<CollectionChangeListener>();
+
+/**
+ * Subscribes to collection changes. Returns a function that unsubscribes.
+ */
+export function onCollectionChanged(listener: CollectionChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function notifyCollectionChanged(event: CollectionChange): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Resource notification failed:', error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+interface CollectionScope {
+  connection: string;
+  db: Db;
+  dbName: string;
+}
+
+/**
+ * Runs a write and publishes the collections it created or dropped as a side
+ * effect, such as the target of a first insert or upsert. Only `collections`
+ * are checked, or the whole database when omitted. `rewritten` collections
+ * (written by $out or $merge) are published as updated when they already existed.
+ */
+export async function publishCollectionChanges<T>(
+  scope: CollectionScope,
+  run: () => Promise<T>,
+  collections?: string[],
+  rewritten: string[] = []
+): Promise<T> {
+  // Notifications are best effort: a user that can't list collections can still write
+  const before = collections?.length === 0 ? undefined : await listCollectionNames(scope.db, collections);
+  const result = await run();
+  if (!before) {
+    return result;
+  }
+
+  // Nothing can have been created when every collection already existed
+  const after =
+    collections && collections.every((name) => before.has(name)) ? before : await listCollectionNames(scope.db, collections);
+  if (!after) {
+    return result;
+  }
+
+  const publish = (collection: string, change: CollectionChange['change']) =>
+    notifyCollectionChanged({ connection: scope.connection, database: scope.dbName, collection, change });
+
+  for (const name of after) {
+    if (!before.has(name)) publish(name, 'created');
+  }
+  for (const name of before) {
+    if (!after.has(name)) publish(name, 'dropped');
+  }
+  for (const name of new Set(rewritten)) {
+    if (before.has(name) && after.has(name)) publish(name, 'updated');
+  }
+  return result;
+}
+
+async function listCollectionNames(db: Db, names?: string[]): Promise<Set<string> | undefined> {
+  try {
+    const filter = names ? { name: { $in: names } } : {};
+    const collections = await db.listCollections(filter, { nameOnly: true }).toArray();
+    return new Set(collections.map((collection) => collection.name));
+  } catch {
+    return undefined;
+  }
+}
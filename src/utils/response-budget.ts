@@ -0,0 +1,287 @@
+/**
+ * Response size budget shared by all tools. Structured results that would
+ * exceed it are trimmed to fit: long nested strings and arrays are shortened
+ * first, then whole documents are dropped from the result lists, and a
+ * `truncated` marker explains how to fetch the rest.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Rough average for JSON-heavy text
+export const BYTES_PER_TOKEN = 4;
+
+const MAX_NESTED_STRING = 1000;
+const KEPT_STRING = 200;
+const MAX_NESTED_ARRAY = 50;
+const KEPT_ARRAY = 10;
+const SEARCH_STEPS = 16;
+
+let defaultMaxBytes = 100_000;
+
+interface BudgetContext {
+  tool: string;
+  maxBytes: number;
+}
+
+interface ShrinkStats {
+  shortenedStrings: number;
+  shortenedArrays: number;
+}
+
+const budgetStorage = new AsyncLocalStorage<BudgetContext>();
+
+export function configureResponseBudget(maxResponseBytes: number): void {
+  defaultMaxBytes = maxResponseBytes;
+}
+
+/**
+ * The byte budget for a call: the smaller of the per-call overrides, or the
+ * configured default when neither is given
+ */
+export function resolveMaxResponseBytes(maxResponseBytes?: number, maxTokens?: number): number {
+  const limits = [maxResponseBytes, maxTokens === undefined ? undefined : maxTokens * BYTES_PER_TOKEN].filter(
+    (limit): limit is number => limit !== undefined
+  );
+  return limits.length > 0 ? Math.min(...limits) : defaultMaxBytes;
+}
+
+/**
+ * Runs a tool call under a budget. Text that still exceeds it afterwards
+ * (plain-text responses, or notes appended to a trimmed result) is cut.
+ */
+export async function runWithResponseBudget<T>(tool: string, maxBytes: number, fn: () => Promise<T>): Promise<T> {
+  const result = await budgetStorage.run({ tool, maxBytes }, fn);
+  const content = (result as { content?: Array<{ type: string; text?: string }> } | undefined)?.content;
+  if (!Array.isArray(content)) {
+    return result;
+  }
+
+  for (const item of content) {
+    if (item.type === 'text' && typeof item.text === 'string' && Buffer.byteLength(item.text) > maxBytes) {
+      item.text = cutText(item.text, maxBytes, tool);
+    }
+  }
+  return result;
+}
+
+/**
+ * Serializes a result, trimming it when it exceeds the current call's budget
+ */
+export function fitToBudget(value: unknown, serialize: (value: unknown) => string): string {
+  return fit(value, serialize).text;
+}
+
+/**
+ * Serializes one page of documents (a result with a `documents` list) within
+ * the budget. Instead of dropping documents from the rendered page, the page
+ * is built again with only the documents that fit, so whatever continues the
+ * paging (a nextToken, the cursor) starts right after the last one returned.
+ * Returns the text and how many documents it holds; `start` caps that count
+ * when the caller already knows fewer documents can be sent.
+ */
+export function fitPageToBudget(
+  total: number,
+  build: (count: number) => unknown,
+  serialize: (value: unknown) => string,
+  start = total
+): { text: string; count: number } {
+  const context = budgetStorage.getStore();
+  let count = start;
+  for (;;) {
+    const page = build(count);
+    const value =
+      context && count < total && isPlainObject(page)
+        ? {
+            ...page,
+            truncated: {
+              limitBytes: context.maxBytes,
+              omitted: { documents: `${total - count} of ${total} items` },
+              hint: hintFor(context.tool, count),
+            },
+          }
+        : page;
+    const { text, kept } = fit(value, serialize);
+    if (kept === undefined || kept >= count) {
+      return { text, count };
+    }
+    count = kept;
+  }
+}
+
+/**
+ * Trims a result to the budget. `kept` is the number of items left in the
+ * first list that had to be cut, or undefined when no list was cut.
+ */
+function fit(value: unknown, serialize: (value: unknown) => string): { text: string; kept?: number } {
+  const text = serialize(value);
+  const context = budgetStorage.getStore();
+  const originalBytes = Buffer.byteLength(text);
+  if (!context || originalBytes <= context.maxBytes) {
+    return { text };
+  }
+
+  const stats: ShrinkStats = { shortenedStrings: 0, shortenedArrays: 0 };
+  const shrunk = shrinkTopLevel(value, stats);
+  if (!Array.isArray(shrunk) && !isPlainObject(shrunk)) {
+    return { text: cutText(text, context.maxBytes, context.tool) };
+  }
+
+  // A marker added by fitPageToBudget is kept and extended
+  const previous = isPlainObject(shrunk) && isPlainObject(shrunk.truncated) ? shrunk.truncated : undefined;
+  const build = (fraction: number): { text: string; kept?: number } => {
+    const { value: sliced, omitted, kept } = sliceMain(shrunk, fraction);
+    const allOmitted = { ...(previous?.omitted as Record<string, string> | undefined), ...omitted };
+    const marker = {
+      ...previous,
+      limitBytes: context.maxBytes,
+      originalBytes,
+      omitted: Object.keys(allOmitted).length > 0 ? allOmitted : undefined,
+      shortenedStrings: stats.shortenedStrings || undefined,
+      shortenedArrays: stats.shortenedArrays || undefined,
+      hint: kept === undefined && previous ? previous.hint : hintFor(context.tool, kept),
+    };
+    return {
+      text: serialize(Array.isArray(value) ? { truncated: marker, results: sliced } : { ...(sliced as object), truncated: marker }),
+      kept,
+    };
+  };
+
+  const fits = (candidate: { text: string }) => Buffer.byteLength(candidate.text) <= context.maxBytes;
+  const full = build(1);
+  if (fits(full)) {
+    return full;
+  }
+  const empty = build(0);
+  if (!fits(empty)) {
+    return { text: cutText(text, context.maxBytes, context.tool), kept: 0 };
+  }
+
+  // Largest share of each result list that still fits
+  let best = empty;
+  let low = 0;
+  let high = 1;
+  for (let step = 0; step < SEARCH_STEPS; step++) {
+    const middle = (low + high) / 2;
+    const candidate = build(middle);
+    if (fits(candidate)) {
+      best = candidate;
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return best;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && value.constructor === Object;
+}
+
+// Shortens long strings and arrays inside documents; BSON values are left alone
+function shrink(value: unknown, stats: ShrinkStats): unknown {
+  if (typeof value === 'string' && value.length > MAX_NESTED_STRING) {
+    stats.shortenedStrings++;
+    return `${value.slice(0, KEPT_STRING)}… [${value.length - KEPT_STRING} more characters]`;
+  }
+  if (Array.isArray(value)) {
+    const items = value.length > MAX_NESTED_ARRAY ? value.slice(0, KEPT_ARRAY) : value;
+    const shrunk = items.map((item) => shrink(item, stats));
+    if (items !== value) {
+      stats.shortenedArrays++;
+      shrunk.push(`… [${value.length - KEPT_ARRAY} more items]`);
+    }
+    return shrunk;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, shrink(nested, stats)]));
+  }
+  return value;
+}
+
+// Top-level lists and strings are the result itself; they are trimmed by sliceMain instead
+function shrinkTopLevel(value: unknown, stats: ShrinkStats): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => shrink(item, stats));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [
+        key,
+        Array.isArray(nested)
+          ? nested.map((item) => shrink(item, stats))
+          : typeof nested === 'string'
+            ? nested
+            : shrink(nested, stats),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Keeps the given share of every top-level list (and of long top-level
+ * strings, cut at a line break)
+ */
+function sliceMain(value: unknown, fraction: number): { value: unknown; omitted: Record<string, string>; kept?: number } {
+  const omitted: Record<string, string> = {};
+  let kept: number | undefined;
+
+  const sliceList = (name: string, list: unknown[]): unknown[] => {
+    const count = Math.floor(list.length * fraction);
+    if (count < list.length) {
+      omitted[name] = `${list.length - count} of ${list.length} items`;
+      kept ??= count;
+    }
+    return list.slice(0, count);
+  };
+
+  if (Array.isArray(value)) {
+    return { value: sliceList('results', value), omitted, kept };
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
+    if (Array.isArray(nested)) {
+      result[key] = sliceList(key, nested);
+    } else if (typeof nested === 'string' && nested.length > MAX_NESTED_STRING) {
+      let cut = nested.slice(0, Math.floor(nested.length * fraction));
+      if (cut.length < nested.length) {
+        // Keep whole lines (JSONL documents, CSV rows)
+        const lineBreak = cut.lastIndexOf('\n');
+        if (lineBreak > 0) cut = cut.slice(0, lineBreak);
+        omitted[key] = `${nested.length - cut.length} of ${nested.length} characters`;
+        kept ??= cut.split('\n').length;
+      }
+      result[key] = cut;
+    } else {
+      result[key] = nested;
+    }
+  }
+  return { value: result, omitted, kept };
+}
+
+function hintFor(tool: string, kept?: number): string {
+  const raise = 'or raise maxResponseBytes/maxTokens for this call.';
+  if (kept === undefined) {
+    return `Narrow the request (filter, projection, limit), ${raise}`;
+  }
+  switch (tool) {
+    case 'find':
+      return `Only the first ${kept} documents of this page fit; getMore with the cursorId, or find with the nextToken, continues with the rest. For whole pages pass limit: ${Math.max(kept, 1)} or a projection, ${raise}`;
+    case 'getMore':
+      return `Only the first ${kept} documents of this page fit; the next getMore continues with the rest. For whole pages pass pageSize: ${Math.max(kept, 1)}, ${raise}`;
+    case 'aggregate':
+      return `With pageSize set, getMore continues with the documents that didn't fit; otherwise pass pageSize: ${Math.max(kept, 1)} to page through the results, add $project/$limit stages, ${raise}`;
+    case 'exportCollection':
+      return `Export in batches with options.limit (about ${Math.max(kept, 1)} fit) and a filter on _id, narrow options.projection, ${raise}`;
+    default:
+      return `Narrow the request (filter, projection, limit), ${raise}`;
+  }
+}
+
+function cutText(text: string, maxBytes: number, tool: string): string {
+  const note = `\n… [truncated: response exceeded ${maxBytes} bytes. ${hintFor(tool)}]`;
+  const room = Math.max(maxBytes - Buffer.byteLength(note), 0);
+  // Cutting a buffer may split a multi-byte character; drop the partial one
+  const head = Buffer.from(text).subarray(0, room).toString('utf8').replace(/�$/, '');
+  return `${head}${note}`;
+}
@@ -0,0 +1,168 @@
+/**
+ * Compares inferred schemas field by field. Paths use dots for embedded
+ * documents and `[]` for array elements (`items[].sku`).
+ */
+import { BSON } from 'mongodb';
+import type { InferredSchema, SchemaField } from '../types.js';
+
+export interface FieldChange {
+  path: string;
+  type: string;
+  presence?: number;
+  firstSeen?: string;
+}
+
+export interface TypeChange {
+  path: string;
+  before: Record<string, number>;
+  after: Record<string, number>;
+  newTypes: string[];
+  removedTypes: string[];
+  firstSeen?: Record<string, string>;
+}
+
+export interface PresenceChange {
+  path: string;
+  before: number;
+  after: number;
+  change: number;
+}
+
+export interface EnumChange {
+  path: string;
+  values: unknown[];
+  firstSeen?: string;
+}
+
+export interface SchemaDiff {
+  added: FieldChange[];
+  removed: FieldChange[];
+  typeChanges: TypeChange[];
+  presenceChanges: PresenceChange[];
+  newEnumValues: EnumChange[];
+}
+
+/**
+ * A slice of a collection by _id creation time, used to date changes
+ */
+export interface SchemaSlice {
+  start: Date;
+  schema: InferredSchema;
+}
+
+export function flattenSchema(schema: InferredSchema, prefix = '', fields = new Map<string, SchemaField>()): Map<string, SchemaField> {
+  for (const [name, field] of Object.entries(schema)) {
+    const path = prefix ? `${prefix}.${name}` : name;
+    fields.set(path, field);
+    if (field.nested) {
+      flattenSchema(field.nested, path, fields);
+    }
+    if (field.items) {
+      flattenItems(field.items, `${path}[]`, fields);
+    }
+  }
+  return fields;
+}
+
+function flattenItems(items: SchemaField, path: string, fields: Map<string, SchemaField>): void {
+  fields.set(path, items);
+  if (items.nested) {
+    flattenSchema(items.nested, path, fields);
+  }
+  if (items.items) {
+    flattenItems(items.items, `${path}[]`, fields);
+  }
+}
+
+function valueKey(value: unknown): string {
+  return BSON.EJSON.stringify(value, { relaxed: false });
+}
+
+// Values a field was seen with: the enum candidates, or the examples when there are none
+function knownValues(field: SchemaField): unknown[] {
+  return field.enum ?? field.examples ?? [];
+}
+
+export function isEmptyDiff(diff: SchemaDiff): boolean {
+  return Object.values(diff).every((changes) => changes.length === 0);
+}
+
+/**
+ * Lists the fields added and removed between two schemas, the fields whose
+ * types changed, presence shifts of at least `presenceThreshold` percentage
+ * points, and values outside a field's former enum candidates
+ */
+export function diffSchemas(before: InferredSchema, after: InferredSchema, presenceThreshold = 5): SchemaDiff {
+  const beforeFields = flattenSchema(before);
+  const afterFields = flattenSchema(after);
+  const diff: SchemaDiff = { added: [], removed: [], typeChanges: [], presenceChanges: [], newEnumValues: [] };
+
+  for (const [path, field] of afterFields) {
+    const previous = beforeFields.get(path);
+    if (!previous) {
+      diff.added.push({ path, type: field.type, presence: field.presence });
+      continue;
+    }
+
+    const newTypes = Object.keys(field.types).filter((type) => !(type in previous.types));
+    const removedTypes = Object.keys(previous.types).filter((type) => !(type in field.types));
+    if (newTypes.length > 0 || removedTypes.length > 0) {
+      diff.typeChanges.push({ path, before: previous.types, after: field.types, newTypes, removedTypes });
+    }
+
+    if (previous.presence !== undefined && field.presence !== undefined) {
+      const change = parseFloat((field.presence - previous.presence).toFixed(2));
+      if (Math.abs(change) >= presenceThreshold) {
+        diff.presenceChanges.push({ path, before: previous.presence, after: field.presence, change });
+      }
+    }
+
+    if (previous.enum) {
+      const known = new Set(previous.enum.map(valueKey));
+      const values = knownValues(field).filter((value) => !known.has(valueKey(value)));
+      if (values.length > 0) {
+        diff.newEnumValues.push({ path, values });
+      }
+    }
+  }
+
+  for (const [path, field] of beforeFields) {
+    if (!afterFields.has(path)) {
+      diff.removed.push({ path, type: field.type, presence: field.presence });
+    }
+  }
+
+  diff.presenceChanges.sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+  return diff;
+}
+
+/**
+ * Dates added fields, new types and new enum values by the first time slice
+ * (oldest first) whose sample contains them
+ */
+export function dateChanges(diff: SchemaDiff, slices: SchemaSlice[]): void {
+  const flattened = slices.map((slice) => ({ start: slice.start.toISOString(), fields: flattenSchema(slice.schema) }));
+  const firstSlice = (matches: (field: SchemaField) => boolean, path: string): string | undefined =>
+    flattened.find(({ fields }) => {
+      const field = fields.get(path);
+      return field !== undefined && matches(field);
+    })?.start;
+
+  for (const change of diff.added) {
+    change.firstSeen = firstSlice(() => true, change.path);
+  }
+
+  for (const change of diff.typeChanges) {
+    const firstSeen: Record<string, string> = {};
+    for (const type of change.newTypes) {
+      const start = firstSlice((field) => type in field.types, change.path);
+      if (start) firstSeen[type] = start;
+    }
+    change.firstSeen = Object.keys(firstSeen).length > 0 ? firstSeen : undefined;
+  }
+
+  for (const change of diff.newEnumValues) {
+    const keys = new Set(change.values.map(valueKey));
+    change.firstSeen = firstSlice((field) => knownValues(field).some((value) => keys.has(valueKey(value))), change.path);
+  }
+}
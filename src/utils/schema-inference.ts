@@ -0,0 +1,329 @@
+/**
+ * Schema inference from sampled documents. Walks embedded documents and
+ * arrays, and records per path how often a field is present, which BSON
+ * types it holds, and which values it takes. The result can be rendered as a
+ * draft-07 JSON Schema or as a MongoDB `$jsonSchema` validator.
+ */
+import { BSON, type Db, type Document } from 'mongodb';
+import type { InferredSchema, SchemaField } from '../types.js';
+import { protectPipeline } from './access-policy.js';
+import { detectPii, getPiiMode } from './pii.js';
+
+const DEFAULT_MAX_DEPTH = 10;
+// Distinct values tracked per field; beyond this the cardinality is a lower bound
+const MAX_TRACKED_VALUES = 1000;
+const MAX_ENUM_VALUES = 10;
+const MAX_EXAMPLES = 3;
+const MAX_EXAMPLE_LENGTH = 100;
+
+interface FieldStats {
+  count: number;
+  types: Map<string, number>;
+  values: Map<string, { value: unknown; count: number }>;
+  scalarCount: number;
+  nested?: Map<string, FieldStats>;
+  items?: FieldStats;
+}
+
+/**
+ * Samples documents for inference (optionally among those matching a filter),
+ * through the access policy. Numbers keep their BSON wrappers so int, long
+ * and double can be told apart.
+ */
+export async function sampleDocuments(db: Db, collection: string, sampleSize: number, filter?: Document): Promise<Document[]> {
+  const pipeline = [
+    ...(filter && Object.keys(filter).length > 0 ? [{ $match: filter }] : []),
+    { $sample: { size: sampleSize } },
+    { $limit: sampleSize },
+  ];
+  return db.collection(collection).aggregate(protectPipeline(collection, pipeline), { promoteValues: false }).toArray();
+}
+
+/**
+ * The $type alias of a value
+ */
+export function bsonTypeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'string') return 'string';
+  if (typeof value === 'boolean') return 'bool';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'int' : 'double';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Date) return 'date';
+  if (value instanceof RegExp) return 'regex';
+
+  switch ((value as { _bsontype?: string })._bsontype) {
+    case undefined:
+      return 'object';
+    case 'ObjectId':
+      return 'objectId';
+    case 'Int32':
+      return 'int';
+    case 'Double':
+      return 'double';
+    case 'Long':
+      return 'long';
+    case 'Decimal128':
+      return 'decimal';
+    case 'Binary':
+      return 'binData';
+    case 'Timestamp':
+      return 'timestamp';
+    case 'BSONRegExp':
+      return 'regex';
+    case 'Code':
+      return 'javascript';
+    case 'BSONSymbol':
+      return 'symbol';
+    case 'MinKey':
+      return 'minKey';
+    case 'MaxKey':
+      return 'maxKey';
+    default:
+      return 'object';
+  }
+}
+
+function newStats(): FieldStats {
+  return { count: 0, types: new Map(), values: new Map(), scalarCount: 0 };
+}
+
+function observeObject(doc: Document, fields: Map<string, FieldStats>, depth: number, maxDepth: number): void {
+  for (const [key, value] of Object.entries(doc)) {
+    let stats = fields.get(key);
+    if (!stats) {
+      stats = newStats();
+      fields.set(key, stats);
+    }
+    stats.count++;
+    observeValue(stats, value, depth, maxDepth);
+  }
+}
+
+function observeValue(stats: FieldStats, value: unknown, depth: number, maxDepth: number): void {
+  const type = bsonTypeOf(value);
+  stats.types.set(type, (stats.types.get(type) ?? 0) + 1);
+
+  if (type === 'object') {
+    if (depth < maxDepth) {
+      stats.nested ??= new Map();
+      observeObject(value as Document, stats.nested, depth + 1, maxDepth);
+    }
+    return;
+  }
+
+  if (type === 'array') {
+    if (depth < maxDepth) {
+      stats.items ??= newStats();
+      for (const item of value as unknown[]) {
+        stats.items.count++;
+        observeValue(stats.items, item, depth + 1, maxDepth);
+      }
+    }
+    return;
+  }
+
+  if (type === 'null' || type === 'undefined') return;
+
+  stats.scalarCount++;
+  const key = BSON.EJSON.stringify(value, { relaxed: false });
+  const seen = stats.values.get(key);
+  if (seen) {
+    seen.count++;
+  } else if (stats.values.size < MAX_TRACKED_VALUES) {
+    stats.values.set(key, { value, count: 1 });
+  }
+}
+
+function percent(part: number, total: number): number {
+  return total > 0 ? parseFloat(((part / total) * 100).toFixed(2)) : 0;
+}
+
+function exampleOf(value: unknown): unknown {
+  return typeof value === 'string' && value.length > MAX_EXAMPLE_LENGTH ? `${value.slice(0, MAX_EXAMPLE_LENGTH)}…` : value;
+}
+
+// A few values that repeat across the sample look like a fixed set of states or categories
+function enumCandidates(stats: FieldStats): unknown[] | undefined {
+  const distinct = stats.values.size;
+  if (distinct < 2 || distinct > MAX_ENUM_VALUES || stats.scalarCount < distinct * 2) return undefined;
+
+  const values = [...stats.values.values()].sort((a, b) => b.count - a.count).map(({ value }) => value);
+  if (!values.every((value) => typeof value === 'string' || bsonTypeOf(value) === 'int' || typeof value === 'boolean')) {
+    return undefined;
+  }
+  // Masked values would be wrong as schema constraints, so PII-looking sets are not proposed
+  if (getPiiMode() !== 'off' && values.some((value) => typeof value === 'string' && detectPii(value))) {
+    return undefined;
+  }
+  return values;
+}
+
+function toSchemaField(stats: FieldStats, parentCount?: number): SchemaField {
+  const typeCounts = [...stats.types.entries()].sort((a, b) => b[1] - a[1]);
+  const field: SchemaField = {
+    type: typeCounts[0]?.[0] ?? 'undefined',
+    types: Object.fromEntries(typeCounts.map(([type, count]) => [type, percent(count, stats.count)])),
+  };
+
+  if (parentCount !== undefined) {
+    field.presence = percent(stats.count, parentCount);
+    field.required = stats.count === parentCount;
+  }
+
+  if (stats.scalarCount > 0) {
+    const distinct = stats.values.size;
+    field.cardinality = distinct;
+    if (stats.scalarCount > 1 && distinct === stats.scalarCount) {
+      field.unique = true;
+    }
+    field.enum = enumCandidates(stats);
+    field.examples = [...stats.values.values()].slice(0, MAX_EXAMPLES).map(({ value }) => exampleOf(value));
+  }
+
+  if (stats.nested) {
+    field.nested = toSchema(stats.nested, stats.types.get('object') ?? 0);
+  }
+  if (stats.items && stats.items.count > 0) {
+    field.items = toSchemaField(stats.items);
+  }
+  return field;
+}
+
+function toSchema(fields: Map<string, FieldStats>, parentCount: number): InferredSchema {
+  const schema: InferredSchema = {};
+  for (const [name, stats] of fields) {
+    schema[name] = toSchemaField(stats, parentCount);
+  }
+  return schema;
+}
+
+/**
+ * Infers the schema of the sampled documents, down to maxDepth levels of
+ * embedded documents and arrays
+ */
+export function inferSchema(documents: Document[], maxDepth = DEFAULT_MAX_DEPTH): InferredSchema {
+  const fields = new Map<string, FieldStats>();
+  for (const doc of documents) {
+    observeObject(doc, fields, 0, maxDepth);
+  }
+  return toSchema(fields, documents.length);
+}
+
+/**
+ * Removes field paths from an inferred schema, following them into embedded
+ * documents and arrays of documents. Used for fields the access policy masks
+ * or hides, whose sampled values don't show what the collection stores.
+ */
+export function omitFields(schema: InferredSchema, paths: string[]): InferredSchema {
+  const result: InferredSchema = {};
+  for (const [name, field] of Object.entries(schema)) {
+    if (paths.includes(name)) {
+      continue;
+    }
+    const nestedPaths = paths.filter((path) => path.startsWith(`${name}.`)).map((path) => path.slice(name.length + 1));
+    if (nestedPaths.length === 0) {
+      result[name] = field;
+      continue;
+    }
+    const copy: SchemaField = { ...field };
+    if (field.nested) {
+      copy.nested = omitFields(field.nested, nestedPaths);
+    }
+    if (field.items?.nested) {
+      copy.items = { ...field.items, nested: omitFields(field.items.nested, nestedPaths) };
+    }
+    result[name] = copy;
+  }
+  return result;
+}
+
+// BSON types as JSON types, the way documents look in plain JSON output
+const JSON_TYPES: Record<string, string> = {
+  string: 'string',
+  int: 'integer',
+  long: 'integer',
+  double: 'number',
+  decimal: 'number',
+  bool: 'boolean',
+  object: 'object',
+  array: 'array',
+  null: 'null',
+  objectId: 'string',
+  date: 'string',
+  binData: 'string',
+  regex: 'string',
+  javascript: 'string',
+  symbol: 'string',
+};
+
+interface SchemaRenderOptions {
+  validator: boolean;
+  includeEnums: boolean;
+}
+
+function renderField(field: SchemaField, options: SchemaRenderOptions): Record<string, unknown> {
+  const bsonTypes = Object.keys(field.types).filter((type) => type !== 'undefined');
+  const rendered: Record<string, unknown> = {};
+
+  if (bsonTypes.length === 0) {
+    // Only ever undefined; leave the type open
+  } else if (options.validator) {
+    rendered.bsonType = bsonTypes.length === 1 ? bsonTypes[0] : bsonTypes;
+  } else if (bsonTypes.every((type) => type in JSON_TYPES)) {
+    let jsonTypes = [...new Set(bsonTypes.map((type) => JSON_TYPES[type]))];
+    if (jsonTypes.includes('number')) {
+      jsonTypes = jsonTypes.filter((type) => type !== 'integer');
+    }
+    rendered.type = jsonTypes.length === 1 ? jsonTypes[0] : jsonTypes;
+    if (bsonTypes.length === 1 && bsonTypes[0] === 'date') rendered.format = 'date-time';
+    if (bsonTypes.length === 1 && bsonTypes[0] === 'objectId') rendered.pattern = '^[0-9a-fA-F]{24}$';
+  }
+
+  if (options.includeEnums && field.enum) {
+    rendered.enum = bsonTypes.includes('null') ? [...field.enum, null] : field.enum;
+  }
+  if (field.nested) {
+    Object.assign(rendered, renderObject(field.nested, options));
+  }
+  if (field.items) {
+    rendered.items = renderField(field.items, options);
+  }
+  return rendered;
+}
+
+function renderObject(schema: InferredSchema, options: SchemaRenderOptions): Record<string, unknown> {
+  const required = Object.entries(schema)
+    .filter(([, field]) => field.required)
+    .map(([name]) => name);
+  const properties = Object.fromEntries(
+    Object.entries(schema).map(([name, field]) => [name, renderField(field, options)])
+  );
+  return required.length > 0 ? { properties, required } : { properties };
+}
+
+/**
+ * Renders an inferred schema as a draft-07 JSON Schema describing the
+ * documents as plain JSON
+ */
+export function toJsonSchema(schema: InferredSchema, title: string, includeEnums = false): Record<string, unknown> {
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title,
+    type: 'object',
+    ...renderObject(schema, { validator: false, includeEnums }),
+  };
+}
+
+/**
+ * Renders an inferred schema as a `$jsonSchema` validator for collMod or
+ * createCollection
+ */
+export function toValidator(schema: InferredSchema, includeEnums = false): Document {
+  return {
+    $jsonSchema: {
+      bsonType: 'object',
+      ...renderObject(schema, { validator: true, includeEnums }),
+    },
+  };
+}
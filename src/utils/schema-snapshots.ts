@@ -0,0 +1,93 @@
+/**
+ * Local store for schema snapshots. Each snapshot is one Extended JSON file
+ * in the configured directory; the oldest snapshots of a collection are
+ * removed once it has more than `maxPerCollection`.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { BSON } from 'mongodb';
+import type { SchemaSnapshot, SchemaSnapshotConfig } from '../types.js';
+
+const SNAPSHOT_ID_PATTERN = /^[\w-]+$/;
+
+let config: SchemaSnapshotConfig = { dir: './schema-snapshots', maxPerCollection: 50 };
+
+export function configureSchemaSnapshots(snapshotConfig: SchemaSnapshotConfig): void {
+  config = snapshotConfig;
+}
+
+export type SchemaSnapshotSummary = Omit<SchemaSnapshot, 'schema'> & { fields: number };
+
+function snapshotFile(id: string): string {
+  return path.join(config.dir, `${id}.json`);
+}
+
+async function readSnapshots(): Promise<SchemaSnapshot[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(config.dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const snapshots: SchemaSnapshot[] = [];
+  for (const file of files.filter((name) => name.endsWith('.json'))) {
+    try {
+      snapshots.push(BSON.EJSON.parse(await fs.readFile(path.join(config.dir, file), 'utf8'), { relaxed: false }) as SchemaSnapshot);
+    } catch {
+      // Unrelated or damaged files in the directory are ignored
+    }
+  }
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function saveSchemaSnapshot(init: Omit<SchemaSnapshot, 'id' | 'createdAt'>): Promise<SchemaSnapshot> {
+  const createdAt = new Date();
+  const snapshot: SchemaSnapshot = {
+    id: `${createdAt.toISOString().replace(/[:.]/g, '-')}-${randomBytes(3).toString('hex')}`,
+    createdAt: createdAt.toISOString(),
+    ...init,
+  };
+
+  await fs.mkdir(config.dir, { recursive: true });
+  await fs.writeFile(snapshotFile(snapshot.id), BSON.EJSON.stringify(snapshot, undefined, 2, { relaxed: false }));
+
+  const siblings = (await readSnapshots()).filter(
+    (other) =>
+      other.connection === snapshot.connection &&
+      other.database === snapshot.database &&
+      other.collection === snapshot.collection
+  );
+  for (const old of siblings.slice(config.maxPerCollection)) {
+    await fs.rm(snapshotFile(old.id), { force: true });
+  }
+  return snapshot;
+}
+
+/**
+ * Lists snapshots, newest first
+ */
+export async function listSchemaSnapshots(
+  filter: { connection?: string; database?: string; collection?: string } = {}
+): Promise<SchemaSnapshotSummary[]> {
+  return (await readSnapshots())
+    .filter(
+      (snapshot) =>
+        (!filter.connection || snapshot.connection === filter.connection) &&
+        (!filter.database || snapshot.database === filter.database) &&
+        (!filter.collection || snapshot.collection === filter.collection)
+    )
+    .map(({ schema, ...summary }) => ({ ...summary, fields: Object.keys(schema).length }));
+}
+
+export async function loadSchemaSnapshot(id: string): Promise<SchemaSnapshot | undefined> {
+  if (!SNAPSHOT_ID_PATTERN.test(id)) return undefined;
+  try {
+    return BSON.EJSON.parse(await fs.readFile(snapshotFile(id), 'utf8'), { relaxed: false }) as SchemaSnapshot;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
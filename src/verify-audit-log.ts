@@ -0,0 +1,48 @@
+import { verifyAuditLog, type AuditAnchor } from './utils/audit-log.js';
+
+const USAGE = 'Usage: mongo-scout verifyAuditLog <audit file or directory> [--anchor <seq>:<hash>]...';
+
+const args = process.argv.slice(2);
+let target: string | undefined;
+const anchors: AuditAnchor[] = [];
+for (let i = 0; i < args.length; i++) {
+  if (args[i] === '--anchor' && i + 1 < args.length) {
+    const [seq, hash] = args[++i].split(':');
+    if (!/^\d+$/.test(seq) || !/^[0-9a-f]{64}$/.test(hash ?? '')) {
+      console.error(`Invalid anchor '${args[i]}'. Expected <seq>:<hash> as logged by the server.`);
+      process.exit(2);
+    }
+    anchors.push({ seq: Number(seq), hash });
+  } else if (!target) {
+    target = args[i];
+  }
+}
+
+if (!target) {
+  console.error(USAGE);
+  process.exit(2);
+}
+
+try {
+  // The key is read from the environment so it doesn't show up in process listings
+  const result = await verifyAuditLog(target, { key: process.env.MONGO_SCOUT_AUDIT_KEY || undefined, anchors });
+  if (result.valid) {
+    console.log(
+      `Audit log OK: ${result.entries} entries${result.entries > 0 ? ` (seq ${result.firstSeq}-${result.lastSeq})` : ''} in ${result.files.length} file(s)`
+    );
+    if (result.keyedFromSeq !== undefined && result.keyedFromSeq !== result.firstSeq) {
+      console.log(`  Entries before seq ${result.keyedFromSeq} are not keyed`);
+    } else if (result.entries > 0 && result.keyedFromSeq === undefined) {
+      console.log('  Entries are not keyed: anyone who can write the file can rewrite and re-chain them');
+    }
+    process.exit(0);
+  }
+
+  console.error(`Audit log verification FAILED at ${result.error?.file}${result.error?.line ? `:${result.error.line}` : ''}`);
+  console.error(`  ${result.error?.message}`);
+  console.error(`  ${result.entries} entries verified before the failure`);
+  process.exit(1);
+} catch (error) {
+  console.error('Error verifying audit log:', error instanceof Error ? error.message : String(error));
+  process.exit(2);
+}